@@ -0,0 +1,302 @@
+/**
+ * Annotation Store
+ *
+ * Server-side, file-backed persistence for IIIF annotations.
+ * Annotations are stored per Zenodo record as one IIIF AnnotationPage JSON
+ * file in ANNOTATIONS_DIR (default: ./data/annotations).
+ *
+ * Writes are serialized per record and written atomically (temp file + rename),
+ * so concurrent requests from several editors cannot corrupt a record's file.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { env } from '$env/dynamic/private'
+import type { IIIFAnnotation, IIIFAnnotationPage } from '../../services/xmlParser'
+
+/** Maximum number of annotations stored per record */
+export const MAX_ANNOTATIONS_PER_RECORD = 5000
+
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+const SELECTOR_TYPES = ['PointSelector', 'WKTSelector', 'BoxSelector', 'FragmentSelector']
+const PRIORITIES = ['low', 'medium', 'high']
+// ISO 8601 date or date-time, e.g. "2024-05-01" or "2024-05-01T12:00:00.000Z"
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+export class AnnotationStoreError extends Error {
+	constructor(
+		message: string,
+		public status: number
+	) {
+		super(message)
+		this.name = 'AnnotationStoreError'
+	}
+}
+
+// Pending write per record, used to serialize read-modify-write cycles
+const recordLocks = new Map<string, Promise<unknown>>()
+
+function getStorageDir(): string {
+	return resolve(env.ANNOTATIONS_DIR || 'data/annotations')
+}
+
+function getRecordPath(recordId: string): string {
+	if (!isValidRecordId(recordId)) {
+		throw new AnnotationStoreError('Invalid record id', 400)
+	}
+	return join(getStorageDir(), `${recordId}.json`)
+}
+
+export function isValidRecordId(recordId: string): boolean {
+	return RECORD_ID_PATTERN.test(recordId)
+}
+
+/**
+ * Validates that the input has the shape of a IIIFAnnotation
+ *
+ * @returns A list of validation errors (empty if valid)
+ */
+export function validateIIIFAnnotation(input: unknown): string[] {
+	const errors: string[] = []
+
+	if (!input || typeof input !== 'object' || Array.isArray(input)) {
+		return ['Annotation must be a JSON object']
+	}
+
+	const annotation = input as Record<string, any>
+
+	if (annotation.id !== undefined && (typeof annotation.id !== 'string' || !annotation.id)) {
+		errors.push('id must be a non-empty string')
+	}
+	if (annotation.type !== 'Annotation') {
+		errors.push('type must be "Annotation"')
+	}
+
+	const motivations = Array.isArray(annotation.motivation)
+		? annotation.motivation
+		: [annotation.motivation]
+	if (motivations.length === 0 || motivations.some((m: unknown) => typeof m !== 'string')) {
+		errors.push('motivation must be a string or an array of strings')
+	}
+
+	const bodies =
+		annotation.body === undefined
+			? []
+			: Array.isArray(annotation.body)
+				? annotation.body
+				: [annotation.body]
+	if (annotation.body === undefined && typeof annotation.bodyValue !== 'string') {
+		errors.push('body or bodyValue is required')
+	}
+	const isTextBody = (body: any) =>
+		typeof body === 'string' ||
+		(!!body && typeof body === 'object' && typeof body.value === 'string')
+	for (const body of bodies) {
+		// Choice bodies hold alternatives, e.g. one text per language
+		const isChoice =
+			body?.type === 'Choice' &&
+			Array.isArray(body.items) &&
+			body.items.length > 0 &&
+			body.items.every(isTextBody)
+		if (!isChoice && !isTextBody(body)) {
+			errors.push(
+				'each body must be a string, an object with a string value or a Choice of those'
+			)
+			break
+		}
+	}
+
+	const target = annotation.target
+	if (!target || typeof target !== 'object') {
+		errors.push('target is required')
+	} else {
+		if (target.type !== 'SpecificResource') {
+			errors.push('target.type must be "SpecificResource"')
+		}
+		if (
+			!Array.isArray(target.source) ||
+			target.source.some((s: any) => typeof s?.id !== 'string')
+		) {
+			errors.push('target.source must be an array of resources with an id')
+		}
+		if (!Array.isArray(target.selector) || target.selector.length === 0) {
+			errors.push('target.selector must be a non-empty array')
+		} else {
+			target.selector.forEach((selector: any, index: number) => {
+				errors.push(...validateSelector(selector, index))
+			})
+		}
+	}
+
+	if (annotation.priority !== undefined && !PRIORITIES.includes(annotation.priority)) {
+		errors.push(`priority must be one of ${PRIORITIES.join(', ')}`)
+	}
+	if (annotation.tourOrder !== undefined && !Number.isFinite(annotation.tourOrder)) {
+		errors.push('tourOrder must be a number')
+	}
+	for (const field of ['created', 'modified']) {
+		if (annotation[field] !== undefined && !isISODate(annotation[field])) {
+			errors.push(`${field} must be an ISO 8601 date`)
+		}
+	}
+
+	return errors
+}
+
+function isISODate(value: unknown): boolean {
+	return (
+		typeof value === 'string' &&
+		ISO_DATE_PATTERN.test(value) &&
+		!Number.isNaN(Date.parse(value))
+	)
+}
+
+function validateSelector(selector: any, index: number): string[] {
+	const prefix = `target.selector[${index}]`
+
+	if (!selector || !SELECTOR_TYPES.includes(selector.type)) {
+		return [`${prefix}.type must be one of ${SELECTOR_TYPES.join(', ')}`]
+	}
+
+	const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value)
+	const isPoint = (value: any) =>
+		value && isNumber(value.x) && isNumber(value.y) && isNumber(value.z)
+
+	switch (selector.type) {
+		case 'PointSelector':
+			return isPoint(selector) ? [] : [`${prefix} requires numeric x, y and z`]
+		case 'BoxSelector':
+			return isPoint(selector.min) && isPoint(selector.max)
+				? []
+				: [`${prefix} requires min and max points`]
+		default:
+			return typeof selector.value === 'string' ? [] : [`${prefix}.value must be a string`]
+	}
+}
+
+function assertValid(annotation: unknown): asserts annotation is IIIFAnnotation {
+	const errors = validateIIIFAnnotation(annotation)
+	if (errors.length > 0) {
+		throw new AnnotationStoreError(`Invalid annotation: ${errors.join('; ')}`, 400)
+	}
+}
+
+async function readPage(recordId: string): Promise<IIIFAnnotationPage> {
+	try {
+		const content = await readFile(getRecordPath(recordId), 'utf-8')
+		return JSON.parse(content) as IIIFAnnotationPage
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return { id: `urn:annotations:${recordId}`, type: 'AnnotationPage', items: [] }
+		}
+		throw error
+	}
+}
+
+async function writePage(recordId: string, page: IIIFAnnotationPage): Promise<void> {
+	const path = getRecordPath(recordId)
+	const tempPath = `${path}.${randomUUID()}.tmp`
+
+	await mkdir(getStorageDir(), { recursive: true })
+	await writeFile(tempPath, JSON.stringify(page, null, 2), 'utf-8')
+	await rename(tempPath, path)
+}
+
+/**
+ * Runs a read-modify-write cycle for a record while holding its lock
+ */
+async function withRecordLock<T>(
+	recordId: string,
+	update: (page: IIIFAnnotationPage) => Promise<T> | T
+): Promise<T> {
+	const previous = recordLocks.get(recordId) ?? Promise.resolve()
+
+	const next = previous
+		.catch(() => {})
+		.then(async () => {
+			const page = await readPage(recordId)
+			const result = await update(page)
+			await writePage(recordId, page)
+			return result
+		})
+
+	recordLocks.set(recordId, next)
+	try {
+		return await next
+	} finally {
+		if (recordLocks.get(recordId) === next) {
+			recordLocks.delete(recordId)
+		}
+	}
+}
+
+/**
+ * Lists all stored annotations of a record as a IIIF AnnotationPage
+ */
+export async function listAnnotations(recordId: string): Promise<IIIFAnnotationPage> {
+	return readPage(recordId)
+}
+
+/**
+ * Stores a new annotation. An id is assigned if the annotation has none.
+ */
+export async function createAnnotation(recordId: string, input: unknown): Promise<IIIFAnnotation> {
+	assertValid(input)
+
+	return withRecordLock(recordId, (page) => {
+		const annotation: IIIFAnnotation = {
+			...input,
+			id: input.id || `urn:uuid:${randomUUID()}`,
+			created: input.created || new Date().toISOString()
+		}
+
+		if (page.items.some((item) => item.id === annotation.id)) {
+			throw new AnnotationStoreError(`Annotation ${annotation.id} already exists`, 409)
+		}
+		if (page.items.length >= MAX_ANNOTATIONS_PER_RECORD) {
+			throw new AnnotationStoreError('Annotation limit reached for this record', 422)
+		}
+
+		page.items.push(annotation)
+		return annotation
+	})
+}
+
+/**
+ * Replaces an existing annotation, matched by its id
+ */
+export async function updateAnnotation(recordId: string, input: unknown): Promise<IIIFAnnotation> {
+	assertValid(input)
+	if (!input.id) {
+		throw new AnnotationStoreError('Annotation id is required for updates', 400)
+	}
+
+	return withRecordLock(recordId, (page) => {
+		const index = page.items.findIndex((item) => item.id === input.id)
+		if (index === -1) {
+			throw new AnnotationStoreError(`Annotation ${input.id} not found`, 404)
+		}
+
+		const annotation: IIIFAnnotation = {
+			...input,
+			created: page.items[index].created ?? input.created,
+			modified: new Date().toISOString()
+		}
+		page.items[index] = annotation
+		return annotation
+	})
+}
+
+/**
+ * Deletes an annotation by id
+ */
+export async function deleteAnnotation(recordId: string, annotationId: string): Promise<void> {
+	await withRecordLock(recordId, (page) => {
+		const index = page.items.findIndex((item) => item.id === annotationId)
+		if (index === -1) {
+			throw new AnnotationStoreError(`Annotation ${annotationId} not found`, 404)
+		}
+		page.items.splice(index, 1)
+	})
+}
@@ -0,0 +1,493 @@
+/**
+ * AR Model Cache Service
+ *
+ * Cache for processed AR models (scaled/optimized GLB, converted USDZ).
+ * Entries are content-addressed: the key is a hash of the source URL, the
+ * source file's ETag and the processing options, so a changed source file or
+ * different options never return a stale model.
+ *
+ * The cache backend is pluggable (see ModelCache). The default stores entries
+ * on disk in AR_CACHE_DIR (default: ./data/ar-cache), so they survive restarts;
+ * AR_CACHE=memory keeps them in memory instead. Both evict the least recently
+ * used entries once AR_CACHE_MAX_MB (default: 2048) is exceeded.
+ *
+ * Concurrent requests for the same key are coalesced: only the first one
+ * downloads and processes the model, the others wait for its result.
+ * Processing jobs of different keys are limited to AR_MAX_JOBS (default: 2)
+ * at a time; up to AR_MAX_QUEUED_JOBS (default: 16) more wait for a slot,
+ * further requests are refused.
+ */
+
+import { createHash, randomUUID } from 'node:crypto'
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { env } from '$env/dynamic/private'
+
+const DEFAULT_MAX_MB = 2048
+const DEFAULT_MAX_JOBS = 2
+const DEFAULT_MAX_QUEUED_JOBS = 16
+// How long a source file's ETag is trusted before it is checked again
+const SOURCE_VERSION_TTL_MS = 5 * 60 * 1000
+
+export interface CachedModel<T = unknown> {
+	data: Uint8Array
+	/** JSON-serializable processing result (e.g. scaling metadata) */
+	metadata: T
+}
+
+export interface CacheKeyParts {
+	/** Source file URL */
+	url: string
+	/** Source file version (ETag or Last-Modified), null if unknown */
+	version: string | null
+	/** Output format, e.g. "glb" or "usdz" */
+	format: string
+	/** Processing options; must be JSON-serializable */
+	options: unknown
+}
+
+export interface CacheEntryInfo {
+	key: string
+	/** Source URL and format, for display */
+	label: string
+	size: number
+	createdAt: number
+	lastAccess: number
+}
+
+export interface CacheStats {
+	backend: string
+	entries: number
+	bytes: number
+	maxBytes: number
+	hits: number
+	misses: number
+	/** Requests that waited for an identical request in progress */
+	coalesced: number
+	evictions: number
+	/** Models currently being processed */
+	pending: number
+	/** Processing jobs running and waiting for a slot (see runModelJob) */
+	runningJobs: number
+	queuedJobs: number
+	/** Entries, most recently used first */
+	items: CacheEntryInfo[]
+}
+
+/**
+ * Cache backend interface
+ */
+export interface ModelCache {
+	readonly name: string
+	readonly maxBytes: number
+	readonly evictions: number
+	get(key: string): Promise<CachedModel | null>
+	set(key: string, entry: CachedModel, label: string): Promise<void>
+	list(): Promise<CacheEntryInfo[]>
+	clear(): Promise<void>
+}
+
+/**
+ * Base class for caches with LRU eviction by total size.
+ * The index is kept in access order: the first entry is the least recently used.
+ */
+abstract class LruModelCache implements ModelCache {
+	abstract readonly name: string
+	public evictions = 0
+	protected index = new Map<string, CacheEntryInfo>()
+	protected bytes = 0
+
+	constructor(public readonly maxBytes: number) {}
+
+	protected abstract readEntry(key: string): Promise<CachedModel | null>
+	protected abstract writeEntry(
+		key: string,
+		entry: CachedModel,
+		info: CacheEntryInfo
+	): Promise<void>
+	protected abstract removeEntry(key: string): Promise<void>
+	protected abstract touchEntry(key: string, time: number): Promise<void>
+
+	/** Loads the index of an existing cache */
+	protected async ready(): Promise<void> {}
+
+	public async get(key: string): Promise<CachedModel | null> {
+		await this.ready()
+		const info = this.index.get(key)
+		if (!info) return null
+
+		const entry = await this.readEntry(key)
+		if (!entry) {
+			this.forget(key)
+			return null
+		}
+
+		// Move to the end (most recently used)
+		info.lastAccess = Date.now()
+		this.index.delete(key)
+		this.index.set(key, info)
+		await this.touchEntry(key, info.lastAccess).catch(() => {})
+		return entry
+	}
+
+	public async set(key: string, entry: CachedModel, label: string): Promise<void> {
+		await this.ready()
+		const size = entry.data.byteLength
+		if (size > this.maxBytes) {
+			console.log(`[AR Cache] Not caching ${label}: ${size} bytes exceed the cache size`)
+			return
+		}
+
+		const now = Date.now()
+		const info: CacheEntryInfo = { key, label, size, createdAt: now, lastAccess: now }
+		await this.writeEntry(key, entry, info)
+
+		this.forget(key)
+		this.index.set(key, info)
+		this.bytes += size
+		await this.evict()
+	}
+
+	public async list(): Promise<CacheEntryInfo[]> {
+		await this.ready()
+		return [...this.index.values()].reverse()
+	}
+
+	public async clear(): Promise<void> {
+		await this.ready()
+		for (const key of [...this.index.keys()]) {
+			await this.removeEntry(key)
+			this.forget(key)
+		}
+	}
+
+	private forget(key: string): void {
+		const info = this.index.get(key)
+		if (info) {
+			this.bytes -= info.size
+			this.index.delete(key)
+		}
+	}
+
+	private async evict(): Promise<void> {
+		for (const key of this.index.keys()) {
+			if (this.bytes <= this.maxBytes) break
+			console.log(`[AR Cache] Evicting ${this.index.get(key)!.label}`)
+			await this.removeEntry(key)
+			this.forget(key)
+			this.evictions++
+		}
+	}
+}
+
+/**
+ * Keeps entries in memory; lost on restart
+ */
+export class MemoryModelCache extends LruModelCache {
+	readonly name = 'memory'
+	private entries = new Map<string, CachedModel>()
+
+	protected async readEntry(key: string): Promise<CachedModel | null> {
+		return this.entries.get(key) ?? null
+	}
+
+	protected async writeEntry(key: string, entry: CachedModel): Promise<void> {
+		this.entries.set(key, entry)
+	}
+
+	protected async removeEntry(key: string): Promise<void> {
+		this.entries.delete(key)
+	}
+
+	protected async touchEntry(): Promise<void> {}
+}
+
+/**
+ * Stores each entry as two files in a directory: `<key>.bin` with the model
+ * and `<key>.json` with metadata. The modification time of the .bin file is
+ * the last access time, so the LRU order survives restarts.
+ */
+export class DiskModelCache extends LruModelCache {
+	readonly name = 'disk'
+	private loading: Promise<void> | null = null
+
+	constructor(
+		private directory: string,
+		maxBytes: number
+	) {
+		super(maxBytes)
+	}
+
+	protected ready(): Promise<void> {
+		this.loading ??= this.loadIndex()
+		return this.loading
+	}
+
+	private async loadIndex(): Promise<void> {
+		await mkdir(this.directory, { recursive: true })
+
+		const files = await readdir(this.directory)
+		const infos: CacheEntryInfo[] = []
+		for (const file of files) {
+			// Leftovers of interrupted writes
+			if (
+				file.endsWith('.tmp') ||
+				(file.endsWith('.bin') && !files.includes(file.replace(/\.bin$/, '.json')))
+			) {
+				await rm(join(this.directory, file), { force: true })
+				continue
+			}
+			if (!file.endsWith('.json')) continue
+			const key = file.slice(0, -'.json'.length)
+
+			try {
+				const { info } = JSON.parse(await readFile(this.getPath(key, 'json'), 'utf-8'))
+				const { mtimeMs, size } = await stat(this.getPath(key, 'bin'))
+				infos.push({ ...info, key, size, lastAccess: mtimeMs })
+			} catch {
+				// Incomplete or corrupt entry
+				await this.removeEntry(key)
+			}
+		}
+
+		for (const info of infos.sort((a, b) => a.lastAccess - b.lastAccess)) {
+			this.index.set(info.key, info)
+			this.bytes += info.size
+		}
+		console.log(`[AR Cache] Loaded ${infos.length} entries (${this.bytes} bytes) from disk`)
+	}
+
+	private getPath(key: string, extension: 'bin' | 'json'): string {
+		return join(this.directory, `${key}.${extension}`)
+	}
+
+	protected async readEntry(key: string): Promise<CachedModel | null> {
+		try {
+			const [data, json] = await Promise.all([
+				readFile(this.getPath(key, 'bin')),
+				readFile(this.getPath(key, 'json'), 'utf-8')
+			])
+			return { data: new Uint8Array(data), metadata: JSON.parse(json).metadata }
+		} catch {
+			return null
+		}
+	}
+
+	protected async writeEntry(
+		key: string,
+		entry: CachedModel,
+		info: CacheEntryInfo
+	): Promise<void> {
+		// Write to temp files and rename, so readers never see partial files.
+		// The .json file is written last: entries without one are incomplete.
+		await this.writeAtomic(this.getPath(key, 'bin'), entry.data)
+		await this.writeAtomic(
+			this.getPath(key, 'json'),
+			JSON.stringify({ info, metadata: entry.metadata })
+		)
+	}
+
+	private async writeAtomic(path: string, data: Uint8Array | string): Promise<void> {
+		const tempPath = `${path}.${randomUUID()}.tmp`
+		await writeFile(tempPath, data)
+		await rename(tempPath, path)
+	}
+
+	protected async removeEntry(key: string): Promise<void> {
+		await rm(this.getPath(key, 'json'), { force: true })
+		await rm(this.getPath(key, 'bin'), { force: true })
+	}
+
+	protected async touchEntry(key: string, time: number): Promise<void> {
+		const date = new Date(time)
+		await utimes(this.getPath(key, 'bin'), date, date)
+	}
+}
+
+export class ModelJobLimitError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ModelJobLimitError'
+	}
+}
+
+let cache: ModelCache | null = null
+const pending = new Map<string, Promise<CachedModel>>()
+// Slots of running processing jobs are handed over to the next waiting job
+let runningJobs = 0
+const jobQueue: Array<() => void> = []
+const sourceVersions = new Map<string, { version: string | null; checkedAt: number }>()
+const counters = { hits: 0, misses: 0, coalesced: 0 }
+
+/**
+ * Returns the configured cache backend
+ */
+export function getModelCache(): ModelCache {
+	if (!cache) {
+		const maxMb = Number(env.AR_CACHE_MAX_MB) || DEFAULT_MAX_MB
+		const maxBytes = maxMb * 1024 * 1024
+		cache =
+			env.AR_CACHE === 'memory'
+				? new MemoryModelCache(maxBytes)
+				: new DiskModelCache(resolve(env.AR_CACHE_DIR || 'data/ar-cache'), maxBytes)
+	}
+	return cache
+}
+
+/**
+ * Replaces the cache backend, e.g. with a custom ModelCache implementation
+ */
+export function setModelCache(modelCache: ModelCache): void {
+	cache = modelCache
+}
+
+/**
+ * Creates the content-addressed cache key.
+ * Object keys are sorted, so the order in which options were set doesn't matter.
+ */
+export function createCacheKey(parts: CacheKeyParts): string {
+	const json = JSON.stringify(parts, (_, value) =>
+		value && typeof value === 'object' && !Array.isArray(value)
+			? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+			: value
+	)
+	return createHash('sha256').update(json).digest('hex')
+}
+
+/**
+ * Returns the version of a source file (ETag, or Last-Modified as fallback)
+ * via a HEAD request. Results are remembered for a few minutes, so cache hits
+ * don't hit the source on every request.
+ */
+export async function getSourceVersion(url: string): Promise<string | null> {
+	const known = sourceVersions.get(url)
+	if (known && Date.now() - known.checkedAt < SOURCE_VERSION_TTL_MS) {
+		return known.version
+	}
+
+	let version: string | null = null
+	try {
+		const response = await fetch(url, {
+			method: 'HEAD',
+			headers: {
+				'User-Agent': '3DBigDataSpace/1.0'
+			}
+		})
+		if (response.ok) {
+			version = response.headers.get('etag') ?? response.headers.get('last-modified')
+		}
+	} catch (err) {
+		console.error(
+			`[AR Cache] Failed to check version of ${url}:`,
+			err instanceof Error ? err.message : err
+		)
+	}
+
+	sourceVersions.set(url, { version, checkedAt: Date.now() })
+	return version
+}
+
+/**
+ * Returns a cached model, or creates, caches and returns it.
+ * Concurrent calls with the same key share a single `create` call.
+ */
+export async function getOrCreateModel<T>(
+	parts: CacheKeyParts,
+	create: () => Promise<CachedModel<T>>
+): Promise<CachedModel<T>> {
+	const key = createCacheKey(parts)
+	const label = `${parts.url} (${parts.format})`
+
+	const inProgress = pending.get(key)
+	if (inProgress) {
+		counters.coalesced++
+		return inProgress as Promise<CachedModel<T>>
+	}
+
+	const modelCache = getModelCache()
+	const promise = (async () => {
+		const cached = await modelCache.get(key).catch((err) => {
+			console.error('[AR Cache] Failed to read cache entry:', err)
+			return null
+		})
+		if (cached) {
+			counters.hits++
+			console.log(`[AR Cache] Cache hit for ${label}`)
+			return cached
+		}
+
+		counters.misses++
+		const entry = await create()
+		await modelCache.set(key, entry, label).catch((err) => {
+			// A full disk should not fail the request
+			console.error('[AR Cache] Failed to write cache entry:', err)
+		})
+		return entry
+	})()
+
+	pending.set(key, promise)
+	try {
+		return (await promise) as CachedModel<T>
+	} finally {
+		pending.delete(key)
+	}
+}
+
+/**
+ * Runs a CPU-heavy processing job (download, optimization, conversion) once a
+ * slot is free. Throws a ModelJobLimitError if too many jobs are waiting.
+ * Jobs must not run other jobs, or they could wait for their own slot.
+ */
+export async function runModelJob<T>(job: () => Promise<T>): Promise<T> {
+	const maxJobs = Number(env.AR_MAX_JOBS) || DEFAULT_MAX_JOBS
+	const maxQueued = Number(env.AR_MAX_QUEUED_JOBS) || DEFAULT_MAX_QUEUED_JOBS
+
+	if (runningJobs < maxJobs) {
+		runningJobs++
+	} else {
+		if (jobQueue.length >= maxQueued) {
+			throw new ModelJobLimitError('Too many models are being processed, try again later')
+		}
+		await new Promise<void>((resolve) => jobQueue.push(resolve))
+	}
+
+	try {
+		return await job()
+	} finally {
+		const next = jobQueue.shift()
+		if (next) {
+			next()
+		} else {
+			runningJobs--
+		}
+	}
+}
+
+/**
+ * Gets cache statistics
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+	const modelCache = getModelCache()
+	const items = await modelCache.list()
+
+	return {
+		backend: modelCache.name,
+		entries: items.length,
+		bytes: items.reduce((sum, item) => sum + item.size, 0),
+		maxBytes: modelCache.maxBytes,
+		...counters,
+		evictions: modelCache.evictions,
+		pending: pending.size,
+		runningJobs,
+		queuedJobs: jobQueue.length,
+		items
+	}
+}
+
+/**
+ * Clears the cache
+ */
+export async function clearCache(): Promise<void> {
+	await getModelCache().clear()
+	sourceVersions.clear()
+}
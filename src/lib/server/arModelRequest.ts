@@ -0,0 +1,322 @@
+/**
+ * AR Model Request Service
+ *
+ * Shared request handling of the AR model endpoints (/api/ar-glb, /api/ar-usdz):
+ * validation of the source URL, scaling and optimization query parameters,
+ * and the X-AR-* metadata response headers.
+ */
+
+import { AR_MAX_DIMENSION_METERS } from '$lib/utils/arScaling'
+import { parseLengthUnit, UNIT_TO_METERS, type LengthUnit } from '$lib/utils/unitDetection'
+import type { ScalingResult } from './glbScaler'
+import { ModelJobLimitError } from './arModelCache'
+import {
+	AR_OPTIMIZATION_PRESETS,
+	isOptimizationPreset,
+	type GeometryCompression,
+	type OptimizationOptions,
+	type TextureFormat
+} from './glbOptimizer'
+
+// Allowed domains for GLB files
+const ALLOWED_DOMAINS = ['zenodo.org', 'files.zenodo.org']
+
+// Direct file URLs (…/model.glb) and Zenodo API file links (…/files/model.glb/content)
+const GLB_PATH_PATTERN = /\.glb(\/content)?$/i
+
+const TEXTURE_FORMATS: TextureFormat[] = ['original', 'webp', 'ktx2']
+const COMPRESSIONS: GeometryCompression[] = ['none', 'draco', 'meshopt']
+
+/** Headers that browsers may read from cross-origin responses */
+export const AR_EXPOSED_HEADERS = [
+	'X-AR-Scale-Factor',
+	'X-AR-Was-Scaled',
+	'X-AR-Original-Dimensions',
+	'X-AR-Scaled-Dimensions',
+	'X-AR-Unit',
+	'X-AR-Unit-Confidence',
+	'X-AR-Unit-Source',
+	'X-AR-Optimization',
+	'X-AR-Original-Size',
+	'X-AR-Optimized-Size',
+	'X-AR-Original-Triangles',
+	'X-AR-Optimized-Triangles'
+].join(', ')
+
+export class ARRequestError extends Error {
+	constructor(
+		message: string,
+		public status: number
+	) {
+		super(message)
+		this.name = 'ARRequestError'
+	}
+}
+
+export interface ARModelRequest {
+	/** Validated URL of the source GLB */
+	glbUrl: string
+	/** Maximum dimension in meters */
+	maxDimension: number
+	/** Fixed scale factor (e.g. 1 for true scale), overrides maxDimension */
+	customScaleFactor?: number
+	/** Unit of the source model, if given (otherwise detected) */
+	unit?: LengthUnit
+	/** Optimization steps, if any were requested */
+	optimization?: OptimizationOptions
+	/** Name of the optimization preset, or "custom" for single steps only */
+	optimizationLabel?: string
+}
+
+/**
+ * Parses and validates the query parameters of an AR model request
+ *
+ * @param params - Query parameters (url, maxDimension, customScaleFactor, unit, optimization)
+ * @param defaultPreset - Optimization preset used if no optimization parameter is given
+ */
+export function parseARModelRequest(
+	params: URLSearchParams,
+	defaultPreset?: keyof typeof AR_OPTIMIZATION_PRESETS
+): ARModelRequest {
+	const glbUrl = params.get('url')
+	if (!glbUrl) {
+		throw new ARRequestError('Missing url parameter', 400)
+	}
+
+	// Validate URL
+	let parsedUrl: URL
+	try {
+		parsedUrl = new URL(glbUrl)
+	} catch {
+		throw new ARRequestError('Invalid URL', 400)
+	}
+
+	// Check if domain is allowed
+	const isAllowed = ALLOWED_DOMAINS.some(
+		(domain) => parsedUrl.hostname === domain || parsedUrl.hostname.endsWith(`.${domain}`)
+	)
+	if (!isAllowed) {
+		throw new ARRequestError(
+			`Domain ${parsedUrl.hostname} is not allowed. Only Zenodo URLs are supported.`,
+			403
+		)
+	}
+
+	// Validate file extension
+	if (!GLB_PATH_PATTERN.test(parsedUrl.pathname)) {
+		throw new ARRequestError('URL must point to a .glb file', 400)
+	}
+
+	// Parse max dimension
+	let maxDimension = AR_MAX_DIMENSION_METERS
+	const maxDimensionParam = params.get('maxDimension')
+	if (maxDimensionParam) {
+		const parsed = parseFloat(maxDimensionParam)
+		if (isNaN(parsed) || parsed <= 0 || parsed > 100) {
+			throw new ARRequestError(
+				'maxDimension must be a positive number between 0 and 100',
+				400
+			)
+		}
+		maxDimension = parsed
+	}
+
+	// Parse custom scale factor (1 = true scale)
+	let customScaleFactor: number | undefined
+	const customScaleFactorParam = params.get('customScaleFactor')
+	if (customScaleFactorParam) {
+		const parsed = parseFloat(customScaleFactorParam)
+		if (isNaN(parsed) || parsed <= 0 || parsed > 10) {
+			throw new ARRequestError(
+				'customScaleFactor must be a positive number between 0 and 10',
+				400
+			)
+		}
+		customScaleFactor = parsed
+	}
+
+	// Parse unit override
+	let unit: LengthUnit | undefined
+	const unitParam = params.get('unit')
+	if (unitParam) {
+		unit = parseLengthUnit(unitParam) ?? undefined
+		if (!unit) {
+			throw new ARRequestError(
+				`unit must be one of: ${Object.keys(UNIT_TO_METERS).join(', ')}`,
+				400
+			)
+		}
+	}
+
+	return {
+		glbUrl,
+		maxDimension,
+		customScaleFactor,
+		unit,
+		...parseOptimizationOptions(params, defaultPreset)
+	}
+}
+
+/**
+ * Parses the optimization query parameters, starting from the preset (if any).
+ * Single steps override the preset values.
+ */
+function parseOptimizationOptions(
+	params: URLSearchParams,
+	defaultPreset?: keyof typeof AR_OPTIMIZATION_PRESETS
+): Pick<ARModelRequest, 'optimization' | 'optimizationLabel'> {
+	const preset = params.get('optimize') ?? defaultPreset
+	let optimization: OptimizationOptions | undefined
+	let optimizationLabel: string | undefined
+
+	if (preset && preset !== 'none') {
+		if (!isOptimizationPreset(preset)) {
+			throw new ARRequestError(
+				`optimize must be one of: none, ${Object.keys(AR_OPTIMIZATION_PRESETS).join(', ')}`,
+				400
+			)
+		}
+		optimization = { ...AR_OPTIMIZATION_PRESETS[preset] }
+		optimizationLabel = preset
+	}
+
+	const overrides: OptimizationOptions = {
+		targetTriangles: parseInteger(params, 'targetTriangles', 100, 10_000_000),
+		maxTextureSize: parsePowerOfTwo(params, 'maxTextureSize', 64, 8192),
+		textureFormat: parseEnum(params, 'textureFormat', TEXTURE_FORMATS),
+		compression: parseEnum(params, 'compression', COMPRESSIONS),
+		dedup: parseBoolean(params, 'dedup'),
+		prune: parseBoolean(params, 'prune')
+	}
+
+	for (const [key, value] of Object.entries(overrides)) {
+		if (value !== undefined) {
+			optimization = { ...optimization, [key]: value }
+			optimizationLabel ??= 'custom'
+		}
+	}
+
+	return { optimization, optimizationLabel }
+}
+
+function parseInteger(
+	params: URLSearchParams,
+	name: string,
+	min: number,
+	max: number
+): number | undefined {
+	const value = params.get(name)
+	if (value === null) return undefined
+
+	const parsed = Number(value)
+	if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+		throw new ARRequestError(`${name} must be an integer between ${min} and ${max}`, 400)
+	}
+	return parsed
+}
+
+/**
+ * Texture sizes are limited to powers of two, so arbitrary values cannot
+ * create new cache entries (and processing jobs) for nearly the same model
+ */
+function parsePowerOfTwo(
+	params: URLSearchParams,
+	name: string,
+	min: number,
+	max: number
+): number | undefined {
+	const value = parseInteger(params, name, min, max)
+	if (value !== undefined && (value & (value - 1)) !== 0) {
+		throw new ARRequestError(`${name} must be a power of two between ${min} and ${max}`, 400)
+	}
+	return value
+}
+
+function parseBoolean(params: URLSearchParams, name: string): boolean | undefined {
+	const value = params.get(name)
+	if (value === null) return undefined
+
+	if (value !== 'true' && value !== 'false') {
+		throw new ARRequestError(`${name} must be true or false`, 400)
+	}
+	return value === 'true'
+}
+
+function parseEnum<T extends string>(
+	params: URLSearchParams,
+	name: string,
+	allowed: T[]
+): T | undefined {
+	const value = params.get(name)
+	if (value === null) return undefined
+
+	if (!allowed.includes(value as T)) {
+		throw new ARRequestError(`${name} must be one of: ${allowed.join(', ')}`, 400)
+	}
+	return value as T
+}
+
+/**
+ * Returns the X-AR-* metadata headers for a scaling result
+ */
+export function getARResponseHeaders(
+	result: Omit<ScalingResult, 'glbData'>,
+	optimizationLabel?: string
+): Record<string, string> {
+	// Format dimensions for headers
+	const formatDim = (d: { width: number; height: number; depth: number }) =>
+		`${d.width.toFixed(3)}x${d.height.toFixed(3)}x${d.depth.toFixed(3)}`
+
+	const headers: Record<string, string> = {
+		'Access-Control-Allow-Origin': '*',
+		'Access-Control-Expose-Headers': AR_EXPOSED_HEADERS,
+		'X-AR-Scale-Factor': result.scaleFactor.toFixed(6),
+		'X-AR-Was-Scaled': result.wasScaled.toString(),
+		'X-AR-Original-Dimensions': formatDim(result.originalDimensions),
+		'X-AR-Scaled-Dimensions': formatDim(result.scaledDimensions),
+		'X-AR-Unit': result.unit.unit,
+		'X-AR-Unit-Confidence': result.unit.confidence,
+		'X-AR-Unit-Source': result.unit.source
+	}
+
+	if (result.optimization) {
+		headers['X-AR-Optimization'] = optimizationLabel ?? 'custom'
+		headers['X-AR-Original-Size'] = result.optimization.originalSize.toString()
+		headers['X-AR-Optimized-Size'] = result.optimization.optimizedSize.toString()
+		headers['X-AR-Original-Triangles'] = result.optimization.originalTriangles.toString()
+		headers['X-AR-Optimized-Triangles'] = result.optimization.optimizedTriangles.toString()
+	}
+
+	return headers
+}
+
+/**
+ * Maps errors of scaling, optimization and conversion to HTTP status codes
+ */
+export function toARRequestError(err: unknown): ARRequestError {
+	if (err instanceof ARRequestError) return err
+	if (err instanceof ModelJobLimitError) return new ARRequestError(err.message, 503)
+
+	if (err instanceof Error) {
+		if (err.message.includes('Failed to download')) {
+			return new ARRequestError(`Failed to fetch GLB from source: ${err.message}`, 502)
+		}
+		if (err.message.includes('Source file too large')) {
+			return new ARRequestError(err.message, 413)
+		}
+		if (err.message.includes('no scene')) {
+			return new ARRequestError('GLB file has no valid scene', 422)
+		}
+		if (err.message.includes('toktx is not installed')) {
+			return new ARRequestError(
+				'KTX2 texture conversion is not available on this server',
+				501
+			)
+		}
+	}
+
+	return new ARRequestError(
+		`Failed to process GLB: ${err instanceof Error ? err.message : 'Unknown error'}`,
+		500
+	)
+}
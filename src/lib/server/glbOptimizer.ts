@@ -0,0 +1,283 @@
+/**
+ * GLB Optimization Service
+ *
+ * Server-side optimization steps for GLB models served to AR viewers:
+ * mesh simplification, texture resizing and conversion, geometry compression
+ * and removal of duplicate or unused data. Large photogrammetry scans are
+ * often hundreds of MB, which phones cannot load in Scene Viewer.
+ *
+ * All steps are optional and selected via OptimizationOptions, usually
+ * starting from one of the AR_OPTIMIZATION_PRESETS.
+ */
+
+import { execFile } from 'node:child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { promisify } from 'node:util'
+import { Material, NodeIO, Primitive, type Document, type Texture } from '@gltf-transform/core'
+import { ALL_EXTENSIONS, KHRTextureBasisu } from '@gltf-transform/extensions'
+import {
+	dedup,
+	draco,
+	meshopt,
+	prune,
+	simplify,
+	textureCompress,
+	weld
+} from '@gltf-transform/functions'
+import draco3d from 'draco3dgltf'
+import { MeshoptDecoder, MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer'
+import sharp from 'sharp'
+
+const execFileAsync = promisify(execFile)
+
+export type TextureFormat = 'original' | 'webp' | 'ktx2'
+export type GeometryCompression = 'none' | 'draco' | 'meshopt'
+
+export interface OptimizationOptions {
+	/** Simplify meshes until the model has at most this many triangles */
+	targetTriangles?: number
+	/** Maximum simplification error, as a fraction of the mesh radius (default: 0.01) */
+	simplifyError?: number
+	/** Maximum texture width/height in pixels; larger textures are downscaled */
+	maxTextureSize?: number
+	/** Convert textures to this format (default: keep the original format) */
+	textureFormat?: TextureFormat
+	/** Geometry compression (default: none) */
+	compression?: GeometryCompression
+	/** Merge duplicate meshes, materials, textures and accessors */
+	dedup?: boolean
+	/** Remove unused nodes, materials, textures and accessors */
+	prune?: boolean
+}
+
+export interface OptimizationStats {
+	/** Size of the GLB before optimization, in bytes */
+	originalSize: number
+	/** Size of the GLB after optimization, in bytes */
+	optimizedSize: number
+	/** Number of triangles before optimization */
+	originalTriangles: number
+	/** Number of triangles after optimization */
+	optimizedTriangles: number
+}
+
+export type OptimizationPreset = 'lossless' | 'ar' | 'mobile' | 'minimal'
+
+/**
+ * Presets for AR viewers.
+ * - lossless: only removes duplicate and unused data
+ * - ar: up to 500k triangles, 2048px textures, Draco (Scene Viewer on current phones)
+ * - mobile: up to 150k triangles, 1024px textures, Draco (older or low-memory phones)
+ * - minimal: up to 50k triangles, 512px WebP textures, Draco (slow connections)
+ */
+export const AR_OPTIMIZATION_PRESETS: Record<OptimizationPreset, OptimizationOptions> = {
+	lossless: {
+		dedup: true,
+		prune: true
+	},
+	ar: {
+		dedup: true,
+		prune: true,
+		targetTriangles: 500_000,
+		maxTextureSize: 2048,
+		compression: 'draco'
+	},
+	mobile: {
+		dedup: true,
+		prune: true,
+		targetTriangles: 150_000,
+		maxTextureSize: 1024,
+		compression: 'draco'
+	},
+	minimal: {
+		dedup: true,
+		prune: true,
+		targetTriangles: 50_000,
+		maxTextureSize: 512,
+		textureFormat: 'webp',
+		compression: 'draco'
+	}
+}
+
+export function isOptimizationPreset(value: string): value is OptimizationPreset {
+	return value in AR_OPTIMIZATION_PRESETS
+}
+
+/**
+ * Whether the options contain any optimization step
+ */
+export function hasOptimizationSteps(options: OptimizationOptions): boolean {
+	return !!(
+		options.targetTriangles ||
+		options.maxTextureSize ||
+		(options.textureFormat && options.textureFormat !== 'original') ||
+		(options.compression && options.compression !== 'none') ||
+		options.dedup ||
+		options.prune
+	)
+}
+
+/**
+ * Creates a NodeIO that can read and write all supported extensions,
+ * including Draco and meshopt compressed geometry
+ */
+export async function createGltfIO(): Promise<NodeIO> {
+	await MeshoptDecoder.ready
+	await MeshoptEncoder.ready
+
+	return new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies({
+		'draco3d.decoder': await draco3d.createDecoderModule(),
+		'draco3d.encoder': await draco3d.createEncoderModule(),
+		'meshopt.decoder': MeshoptDecoder,
+		'meshopt.encoder': MeshoptEncoder
+	})
+}
+
+/**
+ * Counts the triangles of all primitives in the document.
+ * Instanced meshes are counted once.
+ */
+export function countTriangles(document: Document): number {
+	let triangles = 0
+
+	for (const mesh of document.getRoot().listMeshes()) {
+		for (const primitive of mesh.listPrimitives()) {
+			const indices = primitive.getIndices()
+			const position = primitive.getAttribute('POSITION')
+			const count = indices ? indices.getCount() : (position?.getCount() ?? 0)
+
+			switch (primitive.getMode()) {
+				case Primitive.Mode.TRIANGLES:
+					triangles += Math.floor(count / 3)
+					break
+				case Primitive.Mode.TRIANGLE_STRIP:
+				case Primitive.Mode.TRIANGLE_FAN:
+					triangles += Math.max(0, count - 2)
+					break
+			}
+		}
+	}
+
+	return triangles
+}
+
+/**
+ * Applies the optimization steps to a document in place.
+ * Order matters: cleanup first, then simplification and textures,
+ * compression last since it has to see the final geometry.
+ */
+export async function optimizeDocument(
+	document: Document,
+	options: OptimizationOptions
+): Promise<void> {
+	if (options.dedup) {
+		await document.transform(dedup())
+	}
+
+	if (options.targetTriangles) {
+		const triangles = countTriangles(document)
+		if (triangles > options.targetTriangles) {
+			await MeshoptSimplifier.ready
+			await document.transform(
+				weld(),
+				simplify({
+					simplifier: MeshoptSimplifier,
+					ratio: options.targetTriangles / triangles,
+					error: options.simplifyError ?? 0.01
+				})
+			)
+		}
+	}
+
+	if (options.maxTextureSize || options.textureFormat === 'webp') {
+		await document.transform(
+			textureCompress({
+				encoder: sharp,
+				targetFormat: options.textureFormat === 'webp' ? 'webp' : undefined,
+				resize: options.maxTextureSize
+					? [options.maxTextureSize, options.maxTextureSize]
+					: undefined
+			})
+		)
+	}
+
+	if (options.textureFormat === 'ktx2') {
+		await convertTexturesToKTX2(document)
+	}
+
+	if (options.prune) {
+		await document.transform(prune())
+	}
+
+	if (options.compression === 'draco') {
+		await document.transform(draco({ method: 'edgebreaker' }))
+	} else if (options.compression === 'meshopt') {
+		await document.transform(meshopt({ encoder: MeshoptEncoder, level: 'medium' }))
+	}
+}
+
+/**
+ * Checks whether the KTX-Software `toktx` tool is installed.
+ * There is no in-process Basis Universal encoder, so KTX2 conversion needs it.
+ */
+export async function isKTX2Available(): Promise<boolean> {
+	try {
+		await execFileAsync('toktx', ['--version'])
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Converts all textures to KTX2 (Basis Universal) using `toktx`.
+ * Normal maps use UASTC to keep their precision, other textures ETC1S.
+ */
+async function convertTexturesToKTX2(document: Document): Promise<void> {
+	if (!(await isKTX2Available())) {
+		throw new Error('KTX2 conversion is not available: toktx is not installed')
+	}
+
+	const textures = document
+		.getRoot()
+		.listTextures()
+		.filter((texture) => texture.getMimeType() !== 'image/ktx2' && texture.getImage())
+	if (textures.length === 0) return
+
+	const directory = await mkdtemp(join(tmpdir(), 'glb-ktx2-'))
+	try {
+		for (const [index, texture] of textures.entries()) {
+			const input = join(directory, `${index}.png`)
+			const output = join(directory, `${index}.ktx2`)
+
+			// toktx reads PNG reliably, so convert JPEG/WebP sources first
+			await writeFile(input, await sharp(texture.getImage()!).png().toBuffer())
+			await execFileAsync('toktx', [
+				'--t2',
+				'--genmipmap',
+				...(isNormalMap(texture)
+					? ['--encode', 'uastc', '--assign_oetf', 'linear']
+					: ['--encode', 'etc1s']),
+				output,
+				input
+			])
+
+			texture
+				.setImage(new Uint8Array(await readFile(output)))
+				.setMimeType('image/ktx2')
+				.setURI(texture.getURI().replace(/\.\w+$/, '.ktx2'))
+		}
+	} finally {
+		await rm(directory, { recursive: true, force: true })
+	}
+
+	document.createExtension(KHRTextureBasisu).setRequired(true)
+}
+
+function isNormalMap(texture: Texture): boolean {
+	return texture
+		.listParents()
+		.some((parent) => parent instanceof Material && parent.getNormalTexture() === texture)
+}
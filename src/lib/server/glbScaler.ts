@@ -0,0 +1,294 @@
+/**
+ * GLB Scaling Service
+ * 
+ * Server-side service for scaling GLB models for AR display.
+ * Uses gltf-transform to modify the model's root node scale, and optionally
+ * optimizes the model (see glbOptimizer.ts). Results are cached by
+ * source URL, source ETag and options (see arModelCache.ts).
+ * 
+ * IMPORTANT: This modifies the GLB for AR display only.
+ * Original files on Zenodo remain unchanged.
+ */
+
+import { getBounds } from '@gltf-transform/functions'
+import { env } from '$env/dynamic/private'
+import { AR_MAX_DIMENSION_METERS } from '$lib/utils/arScaling'
+import {
+	detectModelUnit,
+	getUnitHintFromGltf,
+	toMeterDimensions,
+	type UnitDetection
+} from '$lib/utils/unitDetection'
+import {
+	countTriangles,
+	createGltfIO,
+	hasOptimizationSteps,
+	optimizeDocument,
+	type OptimizationOptions,
+	type OptimizationStats
+} from './glbOptimizer'
+import { getOrCreateModel, getSourceVersion, runModelJob } from './arModelCache'
+
+const DEFAULT_MAX_SOURCE_MB = 250
+
+export interface ScalingResult {
+	/** The scaled GLB as a Uint8Array */
+	glbData: Uint8Array
+	/** The scaling factor that was applied */
+	scaleFactor: number
+	/** Whether scaling was actually applied */
+	wasScaled: boolean
+	/** Original dimensions in meters (after unit conversion) */
+	originalDimensions: { width: number; height: number; depth: number }
+	/** Scaled dimensions in meters */
+	scaledDimensions: { width: number; height: number; depth: number }
+	/** Size and triangle counts before/after optimization (only if optimization was requested) */
+	optimization?: OptimizationStats
+	/** Detected unit of the source model */
+	unit: UnitDetection
+}
+
+export interface ScalingOptions {
+	/** Maximum dimension in meters (default: 2.0) */
+	maxDimension?: number
+	/** Whether to force scaling even if model is smaller than max */
+	forceScale?: boolean
+	/** Custom scale factor to apply (overrides automatic calculation) */
+	customScaleFactor?: number
+	/** Unit of the source model (e.g. "mm"); detected if not given */
+	unit?: string
+	/** Optimization steps to apply after scaling */
+	optimization?: OptimizationOptions
+}
+
+/**
+ * Downloads a GLB file from a URL, up to AR_MAX_SOURCE_MB (default: 250)
+ */
+async function downloadGlb(url: string): Promise<Uint8Array> {
+	const maxBytes = (Number(env.AR_MAX_SOURCE_MB) || DEFAULT_MAX_SOURCE_MB) * 1024 * 1024
+	const response = await fetch(url, {
+		headers: {
+			'User-Agent': '3DBigDataSpace/1.0'
+		}
+	})
+
+	if (!response.ok) {
+		throw new Error(`Failed to download GLB: ${response.status} ${response.statusText}`)
+	}
+
+	const tooLarge = () => new Error(`Source file too large: the limit is ${maxBytes} bytes`)
+	if (Number(response.headers.get('content-length')) > maxBytes) {
+		await response.body?.cancel()
+		throw tooLarge()
+	}
+	if (!response.body) {
+		return new Uint8Array(await response.arrayBuffer())
+	}
+
+	// Content-Length may be missing, so count while reading
+	const chunks: Uint8Array[] = []
+	let size = 0
+	const reader = response.body.getReader()
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (done) break
+		size += value.byteLength
+		if (size > maxBytes) {
+			await reader.cancel()
+			throw tooLarge()
+		}
+		chunks.push(value)
+	}
+
+	const data = new Uint8Array(size)
+	let offset = 0
+	for (const chunk of chunks) {
+		data.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+	return data
+}
+
+/**
+ * Scales a GLB model for AR display
+ * 
+ * @param glbUrl - URL of the original GLB file
+ * @param options - Scaling options
+ * @returns ScalingResult with the scaled GLB data and metadata
+ */
+export async function scaleGlbForAR(
+	glbUrl: string,
+	options: ScalingOptions = {}
+): Promise<ScalingResult> {
+	const maxDimension = options.maxDimension ?? AR_MAX_DIMENSION_METERS
+	const optimization =
+		options.optimization && hasOptimizationSteps(options.optimization)
+			? options.optimization
+			: undefined
+
+	const { data, metadata } = await getOrCreateModel<Omit<ScalingResult, 'glbData'>>(
+		{
+			url: glbUrl,
+			version: await getSourceVersion(glbUrl),
+			format: 'glb',
+			options: {
+				maxDimension,
+				forceScale: options.forceScale ?? false,
+				customScaleFactor: options.customScaleFactor ?? null,
+				unit: options.unit ?? null,
+				optimization: optimization ?? null
+			}
+		},
+		() =>
+			runModelJob(async () => {
+				const { glbData, ...result } = await processGlb(
+					glbUrl,
+					maxDimension,
+					options,
+					optimization
+				)
+				return { data: glbData, metadata: result }
+			})
+	)
+
+	return { ...metadata, glbData: data }
+}
+
+/**
+ * Reads the JSON chunk of a GLB file
+ */
+function readGlbJson(glb: Uint8Array): unknown {
+	const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength)
+	const JSON_CHUNK_TYPE = 0x4e4f534a
+	if (glb.byteLength < 20 || view.getUint32(16, true) !== JSON_CHUNK_TYPE) return null
+
+	try {
+		const length = view.getUint32(12, true)
+		return JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + length)))
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Downloads, scales and optionally optimizes a GLB model
+ */
+async function processGlb(
+	glbUrl: string,
+	maxDimension: number,
+	options: ScalingOptions,
+	optimization: OptimizationOptions | undefined
+): Promise<ScalingResult> {
+	console.log(`[GLB Scaler] Processing ${glbUrl}`)
+
+	// Download the original GLB
+	const glbData = await downloadGlb(glbUrl)
+
+	// Initialize gltf-transform I/O (with Draco/meshopt support for compressed input)
+	const io = await createGltfIO()
+
+	// Read the GLB document
+	const document = await io.readBinary(glbData)
+
+	// Get the scene bounds
+	const scene = document.getRoot().getDefaultScene() || document.getRoot().listScenes()[0]
+	if (!scene) {
+		throw new Error('GLB has no scene')
+	}
+
+	const bounds = getBounds(scene)
+	const modelDimensions = {
+		width: bounds.max[0] - bounds.min[0],
+		height: bounds.max[1] - bounds.min[1],
+		depth: bounds.max[2] - bounds.min[2]
+	}
+
+	// Convert from the model's unit (e.g. millimetres) to meters
+	const unit = detectModelUnit(modelDimensions, {
+		override: options.unit,
+		modelUnit: getUnitHintFromGltf(readGlbJson(glbData))
+	})
+
+	const originalDimensions = toMeterDimensions(modelDimensions, unit.metersPerUnit)
+	const { width: originalWidth, height: originalHeight, depth: originalDepth } = originalDimensions
+
+	// Calculate the largest dimension
+	const largestDimension = Math.max(originalWidth, originalHeight, originalDepth)
+
+	// Determine if scaling is needed
+	let scaleFactor: number
+	let wasScaled: boolean
+
+	if (options.customScaleFactor !== undefined) {
+		scaleFactor = options.customScaleFactor
+		wasScaled = scaleFactor !== 1.0
+	} else if (largestDimension > maxDimension || options.forceScale) {
+		scaleFactor = maxDimension / largestDimension
+		wasScaled = true
+	} else {
+		scaleFactor = 1.0
+		wasScaled = false
+	}
+
+	const scaledDimensions = {
+		width: originalWidth * scaleFactor,
+		height: originalHeight * scaleFactor,
+		depth: originalDepth * scaleFactor
+	}
+
+	// Apply unit conversion and scaling if needed
+	const nodeScale = unit.metersPerUnit * scaleFactor
+	if (nodeScale !== 1) {
+		// Apply scale to all root nodes in the scene. Translations are scaled too,
+		// so the whole scene is scaled about the origin.
+		for (const node of scene.listChildren()) {
+			const currentScale = node.getScale()
+			const translation = node.getTranslation()
+			node.setScale([
+				currentScale[0] * nodeScale,
+				currentScale[1] * nodeScale,
+				currentScale[2] * nodeScale
+			])
+			node.setTranslation([
+				translation[0] * nodeScale,
+				translation[1] * nodeScale,
+				translation[2] * nodeScale
+			])
+		}
+	}
+
+	if (wasScaled) {
+		console.log(`[GLB Scaler] Scaled by factor ${scaleFactor.toFixed(4)}: ` +
+			`${originalWidth.toFixed(2)}m × ${originalHeight.toFixed(2)}m × ${originalDepth.toFixed(2)}m → ` +
+			`${scaledDimensions.width.toFixed(2)}m × ${scaledDimensions.height.toFixed(2)}m × ${scaledDimensions.depth.toFixed(2)}m`)
+	}
+
+	// Optimize after scaling, so the simplification error is relative to the AR size
+	const originalTriangles = optimization ? countTriangles(document) : 0
+	if (optimization) {
+		await optimizeDocument(document, optimization)
+	}
+
+	// Write the modified GLB
+	const outputGlb = await io.writeBinary(document)
+
+	const result: ScalingResult = {
+		glbData: outputGlb,
+		scaleFactor,
+		wasScaled,
+		originalDimensions,
+		scaledDimensions,
+		unit
+	}
+
+	if (optimization) {
+		result.optimization = {
+			originalSize: glbData.byteLength,
+			optimizedSize: outputGlb.byteLength,
+			originalTriangles,
+			optimizedTriangles: countTriangles(document)
+		}
+	}
+
+	return result
+}
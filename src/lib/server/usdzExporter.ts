@@ -0,0 +1,486 @@
+/**
+ * USDZ Exporter
+ *
+ * Converts a glTF document (as read by gltf-transform) into a USDZ package
+ * for iOS AR Quick Look, without external tools: the scene is written as a
+ * USDA text layer and packed together with its textures into a stored ZIP.
+ *
+ * Supported: node hierarchy and transforms, triangle meshes with normals and
+ * UVs, metallic-roughness PBR materials (UsdPreviewSurface) with base color,
+ * metallic/roughness, normal, occlusion and emissive textures, alpha modes.
+ * Not supported: animations, skins, morph targets, cameras and lights.
+ */
+
+import {
+	Primitive,
+	type Accessor,
+	type Document,
+	type Material,
+	type Mesh,
+	type Node,
+	type Texture,
+	type TextureInfo
+} from '@gltf-transform/core'
+import sharp from 'sharp'
+import { createZip, type ZipEntry } from '$lib/utils/zip'
+
+/** MIME type of USDZ packages */
+export const USDZ_MIME_TYPE = 'model/vnd.usdz+zip'
+
+// AR Quick Look only reads PNG and JPEG textures
+const SUPPORTED_IMAGE_TYPES: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg'
+}
+
+const ROOT_PATH = '/Root'
+const MATERIALS_PATH = `${ROOT_PATH}/Materials`
+
+interface ExportContext {
+	materials: Map<Material, string>
+	textures: Map<Texture, string | null>
+	files: ZipEntry[]
+	materialDefinitions: string[]
+}
+
+/**
+ * Converts a glTF document to a USDZ package
+ */
+export async function exportUsdz(document: Document): Promise<Uint8Array> {
+	const root = document.getRoot()
+	const scene = root.getDefaultScene() || root.listScenes()[0]
+	if (!scene) {
+		throw new Error('GLB has no scene')
+	}
+
+	const context: ExportContext = {
+		materials: new Map(),
+		textures: new Map(),
+		files: [],
+		materialDefinitions: []
+	}
+
+	// Textures are converted up front, since material writing is synchronous
+	for (const texture of root.listTextures()) {
+		context.textures.set(texture, await addTexture(texture, context))
+	}
+
+	const usedNames = new Set<string>(['Materials'])
+	const nodes = scene
+		.listChildren()
+		.map((node) => writeNode(node, ROOT_PATH, usedNames, context, 1))
+		.join('\n')
+
+	const usda = [
+		'#usda 1.0',
+		'(',
+		'    customLayerData = {',
+		'        string creator = "3D Big Data Space"',
+		'    }',
+		'    defaultPrim = "Root"',
+		'    metersPerUnit = 1',
+		'    upAxis = "Y"',
+		')',
+		'',
+		'def Xform "Root"',
+		'{',
+		nodes,
+		'',
+		'    def Scope "Materials"',
+		'    {',
+		context.materialDefinitions.join('\n'),
+		'    }',
+		'}',
+		''
+	].join('\n')
+
+	// The USD layer has to be the first file in the package
+	return createZip(
+		[{ name: 'model.usda', data: new TextEncoder().encode(usda) }, ...context.files],
+		{ alignment: 64 }
+	)
+}
+
+/**
+ * Adds a texture image to the package, converting it to PNG if needed.
+ * Returns the path inside the package, or null if the image can't be used.
+ */
+async function addTexture(texture: Texture, context: ExportContext): Promise<string | null> {
+	const image = texture.getImage()
+	if (!image) return null
+
+	let data = image
+	let extension = SUPPORTED_IMAGE_TYPES[texture.getMimeType()]
+	if (!extension) {
+		try {
+			data = new Uint8Array(await sharp(image).png().toBuffer())
+			extension = 'png'
+		} catch (err) {
+			console.error(
+				`[USDZ Exporter] Skipping texture with unsupported type ${texture.getMimeType()}:`,
+				err instanceof Error ? err.message : err
+			)
+			return null
+		}
+	}
+
+	const path = `textures/texture_${context.files.length}.${extension}`
+	context.files.push({ name: path, data })
+	return path
+}
+
+function writeNode(
+	node: Node,
+	parentPath: string,
+	usedNames: Set<string>,
+	context: ExportContext,
+	depth: number
+): string {
+	const name = getPrimName(node.getName(), 'Node', usedNames)
+	const path = `${parentPath}/${name}`
+	const indent = '    '.repeat(depth)
+	const childNames = new Set<string>()
+
+	const children = node.listChildren().map((child) => {
+		return writeNode(child, path, childNames, context, depth + 1)
+	})
+
+	const mesh = node.getMesh()
+	const meshes = mesh ? writeMesh(mesh, childNames, context, depth + 1) : []
+
+	return [
+		`${indent}def Xform "${name}"`,
+		`${indent}{`,
+		`${indent}    matrix4d xformOp:transform = ${formatMatrix(node.getMatrix())}`,
+		`${indent}    uniform token[] xformOpOrder = ["xformOp:transform"]`,
+		...meshes,
+		...children,
+		`${indent}}`
+	].join('\n')
+}
+
+/**
+ * Writes each triangle primitive of a mesh as its own USD Mesh,
+ * since USD binds one material per mesh (without GeomSubsets)
+ */
+function writeMesh(
+	mesh: Mesh,
+	usedNames: Set<string>,
+	context: ExportContext,
+	depth: number
+): string[] {
+	const indent = '    '.repeat(depth)
+	const result: string[] = []
+
+	for (const primitive of mesh.listPrimitives()) {
+		if (primitive.getMode() !== Primitive.Mode.TRIANGLES) {
+			console.log(
+				`[USDZ Exporter] Skipping non-triangle primitive in mesh "${mesh.getName()}"`
+			)
+			continue
+		}
+
+		const position = primitive.getAttribute('POSITION')
+		if (!position) continue
+
+		const name = getPrimName(mesh.getName(), 'Mesh', usedNames)
+		const vertexCount = position.getCount()
+		const indices = primitive.getIndices()
+		const faceVertexIndices = indices
+			? Array.from(indices.getArray()!)
+			: Array.from({ length: vertexCount }, (_, i) => i)
+		const faceCount = Math.floor(faceVertexIndices.length / 3)
+
+		const material = primitive.getMaterial()
+		const materialPath = material ? getMaterialPath(material, context) : null
+
+		const lines = [
+			`${indent}def Mesh "${name}" (`,
+			`${indent}    prepend apiSchemas = ["MaterialBindingAPI"]`,
+			`${indent})`,
+			`${indent}{`,
+			`${indent}    int[] faceVertexCounts = [${new Array(faceCount).fill(3).join(', ')}]`,
+			`${indent}    int[] faceVertexIndices = [${faceVertexIndices.slice(0, faceCount * 3).join(', ')}]`,
+			`${indent}    point3f[] points = [${formatVectors(position)}]`
+		]
+
+		const normal = primitive.getAttribute('NORMAL')
+		if (normal) {
+			lines.push(
+				`${indent}    normal3f[] normals = [${formatVectors(normal)}] (`,
+				`${indent}        interpolation = "vertex"`,
+				`${indent}    )`
+			)
+		}
+
+		const texcoord = primitive.getAttribute('TEXCOORD_0')
+		if (texcoord) {
+			// glTF UVs start at the top left, USD texture coordinates at the bottom left
+			const st = formatVectors(texcoord, ([u, v]) => [u, 1 - v])
+			lines.push(
+				`${indent}    texCoord2f[] primvars:st = [${st}] (`,
+				`${indent}        interpolation = "vertex"`,
+				`${indent}    )`
+			)
+		}
+
+		if (material?.getDoubleSided()) {
+			lines.push(`${indent}    uniform bool doubleSided = 1`)
+		}
+		if (materialPath) {
+			lines.push(`${indent}    rel material:binding = <${materialPath}>`)
+		}
+
+		lines.push(`${indent}    uniform token subdivisionScheme = "none"`, `${indent}}`)
+		result.push(lines.join('\n'))
+	}
+
+	return result
+}
+
+function getMaterialPath(material: Material, context: ExportContext): string {
+	const existing = context.materials.get(material)
+	if (existing) return existing
+
+	const usedNames = new Set([...context.materials.values()].map((path) => path.split('/').pop()!))
+	const name = getPrimName(material.getName(), 'Material', usedNames)
+	const path = `${MATERIALS_PATH}/${name}`
+	context.materials.set(material, path)
+	context.materialDefinitions.push(writeMaterial(material, name, path, context))
+	return path
+}
+
+/**
+ * Writes a glTF metallic-roughness material as UsdPreviewSurface
+ */
+function writeMaterial(
+	material: Material,
+	name: string,
+	path: string,
+	context: ExportContext
+): string {
+	const indent = '        '
+	const surfacePath = `${path}/PreviewSurface`
+	const readerPath = `${path}/PrimvarReader_st`
+	const inputs: string[] = []
+	const shaders: string[] = []
+
+	const addTexture = (
+		shaderName: string,
+		info: TextureInfo | null,
+		texture: Texture | null,
+		scale: number[],
+		colorSpace: 'sRGB' | 'raw',
+		bias = [0, 0, 0, 0]
+	): string | null => {
+		const file = texture ? context.textures.get(texture) : null
+		if (!file) return null
+
+		shaders.push(
+			[
+				`${indent}    def Shader "${shaderName}"`,
+				`${indent}    {`,
+				`${indent}        uniform token info:id = "UsdUVTexture"`,
+				`${indent}        asset inputs:file = @${file}@`,
+				`${indent}        float2 inputs:st.connect = <${readerPath}.outputs:result>`,
+				`${indent}        float4 inputs:scale = ${formatTuple(scale)}`,
+				`${indent}        float4 inputs:bias = ${formatTuple(bias)}`,
+				`${indent}        token inputs:sourceColorSpace = "${colorSpace}"`,
+				`${indent}        token inputs:wrapS = "${getWrapMode(info?.getWrapS())}"`,
+				`${indent}        token inputs:wrapT = "${getWrapMode(info?.getWrapT())}"`,
+				`${indent}        float outputs:r`,
+				`${indent}        float outputs:g`,
+				`${indent}        float outputs:b`,
+				`${indent}        float outputs:a`,
+				`${indent}        float3 outputs:rgb`,
+				`${indent}    }`
+			].join('\n')
+		)
+		return `${path}/${shaderName}`
+	}
+
+	// Base color and opacity
+	const baseColor = material.getBaseColorFactor()
+	const baseColorShader = addTexture(
+		'BaseColor',
+		material.getBaseColorTextureInfo(),
+		material.getBaseColorTexture(),
+		baseColor,
+		'sRGB'
+	)
+	if (baseColorShader) {
+		inputs.push(`color3f inputs:diffuseColor.connect = <${baseColorShader}.outputs:rgb>`)
+	} else {
+		inputs.push(`color3f inputs:diffuseColor = ${formatTuple(baseColor.slice(0, 3))}`)
+	}
+
+	const alphaMode = material.getAlphaMode()
+	if (alphaMode !== 'OPAQUE') {
+		if (baseColorShader) {
+			inputs.push(`float inputs:opacity.connect = <${baseColorShader}.outputs:a>`)
+		} else {
+			inputs.push(`float inputs:opacity = ${formatNumber(baseColor[3])}`)
+		}
+		if (alphaMode === 'MASK') {
+			inputs.push(
+				`float inputs:opacityThreshold = ${formatNumber(material.getAlphaCutoff())}`
+			)
+		}
+	}
+
+	// Metallic (blue channel) and roughness (green channel)
+	const metallic = material.getMetallicFactor()
+	const roughness = material.getRoughnessFactor()
+	const metallicRoughnessShader = addTexture(
+		'MetallicRoughness',
+		material.getMetallicRoughnessTextureInfo(),
+		material.getMetallicRoughnessTexture(),
+		[1, roughness, metallic, 1],
+		'raw'
+	)
+	if (metallicRoughnessShader) {
+		inputs.push(
+			`float inputs:metallic.connect = <${metallicRoughnessShader}.outputs:b>`,
+			`float inputs:roughness.connect = <${metallicRoughnessShader}.outputs:g>`
+		)
+	} else {
+		inputs.push(
+			`float inputs:metallic = ${formatNumber(metallic)}`,
+			`float inputs:roughness = ${formatNumber(roughness)}`
+		)
+	}
+
+	// Normal map: stored in [0, 1], USD expects [-1, 1]
+	const normalScale = material.getNormalScale()
+	const normalShader = addTexture(
+		'Normal',
+		material.getNormalTextureInfo(),
+		material.getNormalTexture(),
+		[2 * normalScale, 2 * normalScale, 2, 1],
+		'raw',
+		[-normalScale, -normalScale, -1, 0]
+	)
+	if (normalShader) {
+		inputs.push(`normal3f inputs:normal.connect = <${normalShader}.outputs:rgb>`)
+	}
+
+	// Occlusion (red channel)
+	const occlusionShader = addTexture(
+		'Occlusion',
+		material.getOcclusionTextureInfo(),
+		material.getOcclusionTexture(),
+		[1, 1, 1, 1],
+		'raw'
+	)
+	if (occlusionShader) {
+		inputs.push(`float inputs:occlusion.connect = <${occlusionShader}.outputs:r>`)
+	}
+
+	// Emissive
+	const emissive = material.getEmissiveFactor()
+	const emissiveShader = addTexture(
+		'Emissive',
+		material.getEmissiveTextureInfo(),
+		material.getEmissiveTexture(),
+		[...emissive, 1],
+		'sRGB'
+	)
+	if (emissiveShader) {
+		inputs.push(`color3f inputs:emissiveColor.connect = <${emissiveShader}.outputs:rgb>`)
+	} else if (emissive.some((value) => value > 0)) {
+		inputs.push(`color3f inputs:emissiveColor = ${formatTuple(emissive)}`)
+	}
+
+	if (shaders.length > 0) {
+		shaders.unshift(
+			[
+				`${indent}    def Shader "PrimvarReader_st"`,
+				`${indent}    {`,
+				`${indent}        uniform token info:id = "UsdPrimvarReader_float2"`,
+				`${indent}        string inputs:varname = "st"`,
+				`${indent}        float2 outputs:result`,
+				`${indent}    }`
+			].join('\n')
+		)
+	}
+
+	return [
+		`${indent}def Material "${name}"`,
+		`${indent}{`,
+		`${indent}    token outputs:surface.connect = <${surfacePath}.outputs:surface>`,
+		'',
+		`${indent}    def Shader "PreviewSurface"`,
+		`${indent}    {`,
+		`${indent}        uniform token info:id = "UsdPreviewSurface"`,
+		...inputs.map((input) => `${indent}        ${input}`),
+		`${indent}        int inputs:useSpecularWorkflow = 0`,
+		`${indent}        token outputs:surface`,
+		`${indent}    }`,
+		...shaders,
+		`${indent}}`
+	].join('\n')
+}
+
+function getWrapMode(wrap: number | undefined): string {
+	switch (wrap) {
+		case 33071: // CLAMP_TO_EDGE
+			return 'clamp'
+		case 33648: // MIRRORED_REPEAT
+			return 'mirror'
+		default:
+			return 'repeat'
+	}
+}
+
+/**
+ * Returns a valid, unique USD prim name based on a glTF name
+ */
+function getPrimName(name: string, fallback: string, usedNames: Set<string>): string {
+	let base = name.replace(/[^A-Za-z0-9_]/g, '_')
+	if (!base || /^[0-9]/.test(base)) {
+		base = base ? `${fallback}_${base}` : fallback
+	}
+
+	let unique = base
+	for (let i = 1; usedNames.has(unique); i++) {
+		unique = `${base}_${i}`
+	}
+	usedNames.add(unique)
+	return unique
+}
+
+function formatNumber(value: number): string {
+	return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(7)))
+}
+
+function formatTuple(values: ArrayLike<number>): string {
+	return `(${Array.from(values, formatNumber).join(', ')})`
+}
+
+/**
+ * Formats the elements of an accessor as a list of tuples.
+ * getElement() decodes normalized integer data (e.g. quantized UVs) to floats.
+ */
+function formatVectors(
+	accessor: Accessor,
+	transform: (element: number[]) => number[] = (element) => element
+): string {
+	const vectors: string[] = []
+	const element: number[] = []
+	for (let i = 0; i < accessor.getCount(); i++) {
+		vectors.push(formatTuple(transform(accessor.getElement(i, element))))
+	}
+	return vectors.join(', ')
+}
+
+/**
+ * Formats a column-major glTF matrix as USD matrix4d. USD uses row vectors,
+ * so the column-major order of glTF is the row order of USD.
+ */
+function formatMatrix(matrix: ArrayLike<number>): string {
+	const rows: string[] = []
+	for (let i = 0; i < 16; i += 4) {
+		rows.push(formatTuple(Array.prototype.slice.call(matrix, i, i + 4)))
+	}
+	return `( ${rows.join(', ')} )`
+}
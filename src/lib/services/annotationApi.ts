@@ -0,0 +1,82 @@
+/**
+ * Client for the annotation storage API (/api/annotations/[recordId])
+ */
+
+import type { IIIFAnnotation, IIIFAnnotationPage } from '../../services/xmlParser'
+
+export class AnnotationApiError extends Error {
+	constructor(
+		message: string,
+		public status: number
+	) {
+		super(message)
+		this.name = 'AnnotationApiError'
+	}
+}
+
+function getEndpoint(recordId: string): string {
+	return `/api/annotations/${encodeURIComponent(recordId)}`
+}
+
+/**
+ * Headers of write requests; the token is needed when the server sets ANNOTATIONS_WRITE_TOKEN
+ */
+function getWriteHeaders(token?: string): Record<string, string> {
+	return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+async function ensureOk(response: Response, action: string): Promise<void> {
+	if (!response.ok) {
+		const message = await response.text().catch(() => response.statusText)
+		throw new AnnotationApiError(
+			`Failed to ${action}: ${response.status} ${message}`,
+			response.status
+		)
+	}
+}
+
+/**
+ * Fetches the stored annotations of a record
+ */
+export async function fetchStoredAnnotations(recordId: string): Promise<IIIFAnnotation[]> {
+	const response = await fetch(getEndpoint(recordId))
+	await ensureOk(response, 'load stored annotations')
+
+	const page = (await response.json()) as IIIFAnnotationPage
+	return page.items || []
+}
+
+/**
+ * Creates or replaces a stored annotation
+ *
+ * @param isNew - true to create (POST), false to replace an existing one (PUT)
+ * @param token - Write token of the annotation storage, if the server requires one
+ */
+export async function saveStoredAnnotation(
+	recordId: string,
+	annotation: IIIFAnnotation,
+	isNew: boolean,
+	token?: string
+): Promise<IIIFAnnotation> {
+	const response = await fetch(getEndpoint(recordId), {
+		method: isNew ? 'POST' : 'PUT',
+		headers: { 'Content-Type': 'application/json', ...getWriteHeaders(token) },
+		body: JSON.stringify(annotation)
+	})
+	await ensureOk(response, 'save annotation')
+
+	return (await response.json()) as IIIFAnnotation
+}
+
+/**
+ * Deletes a stored annotation
+ */
+export async function deleteStoredAnnotation(
+	recordId: string,
+	annotationId: string,
+	token?: string
+): Promise<void> {
+	const url = `${getEndpoint(recordId)}?id=${encodeURIComponent(annotationId)}`
+	const response = await fetch(url, { method: 'DELETE', headers: getWriteHeaders(token) })
+	await ensureOk(response, 'delete annotation')
+}
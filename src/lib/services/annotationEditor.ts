@@ -0,0 +1,190 @@
+import { Scene } from '@babylonjs/core/scene'
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { PointerEventTypes, type PointerInfo } from '@babylonjs/core/Events/pointerEvents'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import type { Camera } from '@babylonjs/core/Cameras/camera'
+
+import type { Annotation3D, PolygonAnnotation3D, RegionAnnotation3D } from '../types/annotations'
+import { isPolygonAnnotation, isRegionAnnotation } from '../types/annotations'
+import type { AnnotationRenderer } from './annotationRenderer'
+
+export interface AnnotationEditorCallbacks {
+	/** Called when the model surface is clicked while authoring */
+	onSurfacePicked?: (point: Vector3, screenPosition: { x: number; y: number }) => void
+	/** Called when an existing annotation marker is clicked while authoring */
+	onAnnotationSelected?: (annotation: Annotation3D) => void
+	/** Called after an annotation marker was dragged to a new surface position */
+	onAnnotationMoved?: (annotation: Annotation3D) => void
+}
+
+/**
+ * Handles pointer interaction for in-viewer annotation authoring: picking
+ * points on the model surface and dragging existing markers across it.
+ * Annotation data and meshes stay owned by the AnnotationRenderer.
+ */
+export class AnnotationEditor {
+	private scene: Scene
+	private camera: Camera
+	private renderer: AnnotationRenderer
+	private isModelMesh: (mesh: AbstractMesh) => boolean
+	private callbacks: AnnotationEditorCallbacks
+	private pointerObserver: Observer<PointerInfo> | null = null
+	private draggedId: string | null = null
+	private hasDragged = false
+	private enabled = false
+
+	constructor(
+		scene: Scene,
+		camera: Camera,
+		renderer: AnnotationRenderer,
+		isModelMesh: (mesh: AbstractMesh) => boolean,
+		callbacks: AnnotationEditorCallbacks = {}
+	) {
+		this.scene = scene
+		this.camera = camera
+		this.renderer = renderer
+		this.isModelMesh = isModelMesh
+		this.callbacks = callbacks
+	}
+
+	public get isEnabled(): boolean {
+		return this.enabled
+	}
+
+	public enable(): void {
+		if (this.enabled) return
+		this.enabled = true
+		this.pointerObserver = this.scene.onPointerObservable.add((pointerInfo) =>
+			this.handlePointer(pointerInfo)
+		)
+	}
+
+	public disable(): void {
+		if (!this.enabled) return
+		this.enabled = false
+		this.endDrag()
+		if (this.pointerObserver) {
+			this.scene.onPointerObservable.remove(this.pointerObserver)
+			this.pointerObserver = null
+		}
+	}
+
+	private handlePointer(pointerInfo: PointerInfo): void {
+		switch (pointerInfo.type) {
+			case PointerEventTypes.POINTERDOWN:
+				this.startDrag(pointerInfo)
+				break
+			case PointerEventTypes.POINTERMOVE:
+				this.updateDrag()
+				break
+			case PointerEventTypes.POINTERUP:
+				this.finishDrag()
+				break
+			case PointerEventTypes.POINTERTAP:
+				this.handleTap(pointerInfo)
+				break
+		}
+	}
+
+	private handleTap(pointerInfo: PointerInfo): void {
+		const pick = this.scene.pick(this.scene.pointerX, this.scene.pointerY)
+		if (!pick?.hit || !pick.pickedMesh || !pick.pickedPoint) return
+
+		const annotationId = pick.pickedMesh.metadata?.annotationId
+		if (annotationId) {
+			const annotation = this.renderer.getAnnotation(annotationId)
+			if (annotation) this.callbacks.onAnnotationSelected?.(annotation)
+			return
+		}
+
+		if (this.isModelMesh(pick.pickedMesh)) {
+			this.callbacks.onSurfacePicked?.(pick.pickedPoint.clone(), {
+				x: pointerInfo.event.offsetX,
+				y: pointerInfo.event.offsetY
+			})
+		}
+	}
+
+	private startDrag(pointerInfo: PointerInfo): void {
+		const annotationId = pointerInfo.pickInfo?.pickedMesh?.metadata?.annotationId
+		if (!annotationId || !this.renderer.getAnnotation(annotationId)) return
+
+		this.draggedId = annotationId
+		this.hasDragged = false
+		// Keep the camera from orbiting while a marker is dragged
+		this.camera.detachControl()
+	}
+
+	private updateDrag(): void {
+		if (!this.draggedId) return
+
+		const annotation = this.renderer.getAnnotation(this.draggedId)
+		if (!annotation) return
+
+		const pick = this.scene.pick(this.scene.pointerX, this.scene.pointerY, (mesh) =>
+			this.isModelMesh(mesh)
+		)
+		if (!pick?.hit || !pick.pickedPoint) return
+
+		const offset = pick.pickedPoint.subtract(annotation.position)
+		this.renderer.updateAnnotation(translateAnnotation(annotation, offset))
+		this.hasDragged = true
+	}
+
+	private finishDrag(): void {
+		if (!this.draggedId) return
+
+		const annotation = this.renderer.getAnnotation(this.draggedId)
+		const moved = this.hasDragged
+		this.endDrag()
+
+		if (annotation && moved) {
+			this.callbacks.onAnnotationMoved?.(annotation)
+		}
+	}
+
+	private endDrag(): void {
+		if (this.draggedId) {
+			this.camera.attachControl(true)
+		}
+		this.draggedId = null
+		this.hasDragged = false
+	}
+
+	public dispose(): void {
+		this.disable()
+	}
+}
+
+/**
+ * Returns a copy of the annotation moved by the given offset, including the
+ * vertices (and holes) of polygon and the bounding box of region annotations
+ */
+function translateAnnotation(annotation: Annotation3D, offset: Vector3): Annotation3D {
+	const position = annotation.position.add(offset)
+
+	if (isPolygonAnnotation(annotation)) {
+		const moved: PolygonAnnotation3D = {
+			...annotation,
+			position,
+			vertices: annotation.vertices.map((v) => v.add(offset)),
+			...(annotation.holes && {
+				holes: annotation.holes.map((hole) => hole.map((v) => v.add(offset)))
+			})
+		}
+		return moved
+	}
+
+	if (isRegionAnnotation(annotation)) {
+		const { min, max } = annotation.boundingBox
+		const moved: RegionAnnotation3D = {
+			...annotation,
+			position,
+			boundingBox: { min: min.add(offset), max: max.add(offset) }
+		}
+		return moved
+	}
+
+	return { ...annotation, position }
+}
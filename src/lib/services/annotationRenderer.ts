@@ -1,29 +1,70 @@
 import { Scene } from '@babylonjs/core/scene'
-import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { Matrix, Vector3 } from '@babylonjs/core/Maths/math.vector'
 import { Color3 } from '@babylonjs/core/Maths/math.color'
+import { Viewport } from '@babylonjs/core/Maths/math.viewport'
 import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder'
 import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
 import { DynamicTexture } from '@babylonjs/core/Materials/Textures/dynamicTexture'
 import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
 import { Mesh } from '@babylonjs/core/Meshes/mesh'
+import { VertexData } from '@babylonjs/core/Meshes/mesh.vertexData'
+import type { LinesMesh } from '@babylonjs/core/Meshes/linesMesh'
+import type { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import { PointerEventTypes, type PointerInfo } from '@babylonjs/core/Events/pointerEvents'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import { Ray } from '@babylonjs/core/Culling/ray'
 import type { Camera } from '@babylonjs/core/Cameras/camera'
 
 import type {
 	Annotation3D,
+	RegionAnnotation3D,
 	RenderedAnnotation,
 	AnnotationConfig,
 	AnnotationEvent,
-	AnnotationFilter
+	AnnotationEventType,
+	AnnotationFilter,
+	LabelStyle
 } from '../types/annotations'
-import { DEFAULT_ANNOTATION_STYLE } from '../types/annotations'
+import {
+	DEFAULT_ANNOTATION_STYLE,
+	annotationMatchesFilter,
+	isPolygonAnnotation,
+	isRegionAnnotation,
+	localizeContent
+} from '../types/annotations'
+import { triangulatePolygon } from '../utils/polygon'
+import { contentToParagraphs, drawLabel, layoutLabel } from '../utils/labelLayout'
+
+// Resolution of label textures relative to the label layout
+const LABEL_TEXTURE_SCALE = 2
+
+// With occlusion handling, markers and labels are drawn on top of the model and
+// faded or hidden by raycasts; without it they stay in the model's group
+const ANNOTATION_RENDERING_GROUP = 1
+const OCCLUSION_UPDATE_INTERVAL_MS = 100
+// Marker size in XR relative to its distance from the camera (about 1.7°)
+const XR_MARKER_ANGULAR_SIZE = 0.03
 
 export class AnnotationRenderer {
 	private scene: Scene
 	private camera: Camera
+	// Camera of an XR session, replaces `camera` for scaling and occlusion
+	private xrCamera: Camera | null = null
 	private config: AnnotationConfig
 	private renderedAnnotations: Map<string, RenderedAnnotation> = new Map()
 	private annotationParent: TransformNode
-	private eventCallbacks: Map<string, (event: AnnotationEvent) => void> = new Map()
+	private eventCallbacks: Map<AnnotationEventType, Set<(event: AnnotationEvent) => void>> =
+		new Map()
+	private pointerObserver: Observer<PointerInfo> | null = null
+	private hoveredId: string | null = null
+	private focusedId: string | null = null
+	private activeFilter: AnnotationFilter | null = null
+	private measureContext: CanvasRenderingContext2D | null = null
+	// Preferred languages for multilingual annotations, most preferred first
+	private languages: string[] = []
+	// Model meshes that can hide annotations
+	private occluders = new Set<AbstractMesh>()
+	private lastOcclusionUpdate = 0
 
 	constructor(scene: Scene, camera: Camera, config?: Partial<AnnotationConfig>) {
 		this.scene = scene
@@ -36,6 +77,8 @@ export class AnnotationRenderer {
 			maxVisibleAnnotations: 50,
 			fadeDistance: 10.0,
 			scaleWithDistance: true,
+			occlusionMode: 'fade',
+			occludedOpacity: 0.25,
 			...config
 		}
 
@@ -49,8 +92,13 @@ export class AnnotationRenderer {
 			this.removeAnnotation(annotation.id)
 		}
 
+		annotation = this.localize(annotation)
 		const rendered = this.createRenderedAnnotation(annotation)
 		this.renderedAnnotations.set(annotation.id, rendered)
+
+		if (this.activeFilter) {
+			this.setAnnotationVisibility(annotation.id, this.isShownByFilter(annotation))
+		}
 	}
 
 	public removeAnnotation(id: string): void {
@@ -59,20 +107,54 @@ export class AnnotationRenderer {
 			this.disposeRenderedAnnotation(rendered)
 			this.renderedAnnotations.delete(id)
 		}
+		if (this.focusedId === id) this.focusedId = null
+		if (this.hoveredId === id) this.hoveredId = null
 	}
 
 	public updateAnnotation(annotation: Annotation3D): void {
 		const rendered = this.renderedAnnotations.get(annotation.id)
 		if (rendered) {
+			annotation = this.localize(annotation)
+			const previous = rendered.annotation
 			rendered.annotation = annotation
-			this.updateRenderedAnnotation(rendered)
+			this.updateRenderedAnnotation(rendered, previous)
+
+			if (this.activeFilter) {
+				this.setAnnotationVisibility(annotation.id, this.isShownByFilter(annotation))
+			}
+		}
+	}
+
+	/**
+	 * Sets the preferred languages and shows multilingual annotations in the
+	 * best matching language
+	 */
+	public setLanguages(languages: string[]): void {
+		this.languages = languages
+		for (const rendered of this.renderedAnnotations.values()) {
+			const localized = this.localize(rendered.annotation)
+			if (localized !== rendered.annotation) {
+				rendered.annotation = localized
+				this.updateRenderedAnnotation(rendered)
+			}
 		}
 	}
 
+	private localize(annotation: Annotation3D): Annotation3D {
+		if (this.languages.length === 0) return annotation
+
+		const content = localizeContent(annotation.content, this.languages)
+		return content === annotation.content ? annotation : { ...annotation, content }
+	}
+
 	public getAnnotations(): Annotation3D[] {
 		return Array.from(this.renderedAnnotations.values()).map((r) => r.annotation)
 	}
 
+	public getAnnotation(id: string): Annotation3D | undefined {
+		return this.renderedAnnotations.get(id)?.annotation
+	}
+
 	public setAnnotationVisibility(id: string, visible: boolean): void {
 		const rendered = this.renderedAnnotations.get(id)
 		if (rendered) {
@@ -81,6 +163,8 @@ export class AnnotationRenderer {
 			if (rendered.label) {
 				rendered.label.setEnabled(visible)
 			}
+			rendered.outline?.setEnabled(visible)
+			rendered.fill?.setEnabled(visible)
 		}
 	}
 
@@ -92,39 +176,346 @@ export class AnnotationRenderer {
 		}
 	}
 
+	/**
+	 * Shows only annotations matching the filter. The filter stays active for
+	 * annotations added later, until clearFilter() is called. Annotations
+	 * hidden by their own visibility stay hidden.
+	 */
 	public applyFilter(filter: AnnotationFilter): void {
+		this.activeFilter = filter
+		for (const rendered of this.renderedAnnotations.values()) {
+			this.setAnnotationVisibility(rendered.id, this.isShownByFilter(rendered.annotation))
+		}
+	}
+
+	/**
+	 * Removes the filter and restores each annotation's own visibility
+	 */
+	public clearFilter(): void {
+		this.activeFilter = null
 		for (const rendered of this.renderedAnnotations.values()) {
-			const visible = this.matchesFilter(rendered.annotation, filter)
-			this.setAnnotationVisibility(rendered.id, visible)
+			this.setAnnotationVisibility(rendered.id, rendered.annotation.visibility)
 		}
 	}
 
+	private isShownByFilter(annotation: Annotation3D): boolean {
+		return (
+			annotation.visibility &&
+			(!this.activeFilter || annotationMatchesFilter(annotation, this.activeFilter))
+		)
+	}
+
+	/**
+	 * Makes the annotations follow a node, e.g. the model root while it is
+	 * moved and scaled in AR. Annotation positions stay relative to the node's
+	 * current transform. Pass null to detach them again.
+	 */
+	public followNode(node: TransformNode | null): void {
+		if (!node) {
+			this.annotationParent.parent = null
+			this.annotationParent.setPreTransformMatrix(Matrix.Identity())
+			return
+		}
+
+		// Undo the node's current world transform, so only later changes move the annotations
+		const inverse = node.computeWorldMatrix(true).clone().invert()
+		this.annotationParent.setPreTransformMatrix(inverse)
+		this.annotationParent.parent = node
+	}
+
+	/**
+	 * Shows or hides all markers, shapes and labels at once, e.g. for exports
+	 * without annotations. Filters and visibility settings are kept.
+	 */
+	public setEnabled(enabled: boolean): void {
+		this.annotationParent.setEnabled(enabled)
+	}
+
+	/**
+	 * Uses the camera of an XR session for distance scaling and occlusion.
+	 * Markers then keep a constant angular size, independent of the scale of
+	 * the model, and fading by distance is disabled. Pass null after the session.
+	 */
+	public setXRCamera(camera: Camera | null): void {
+		this.xrCamera = camera
+		this.lastOcclusionUpdate = 0
+		const element = this.scene.getEngine().getInputElement()
+		if (element) element.style.cursor = ''
+		this.hoveredId = null
+	}
+
+	/**
+	 * Returns the world-space position of an annotation, taking any transform
+	 * of the annotation parent into account
+	 */
+	public getAnnotationWorldPosition(id: string): Vector3 | undefined {
+		const rendered = this.renderedAnnotations.get(id)
+		if (!rendered) return undefined
+		return Vector3.TransformCoordinates(
+			rendered.annotation.position,
+			this.annotationParent.computeWorldMatrix(true)
+		)
+	}
+
+	/**
+	 * Returns the position of an annotation on the canvas, in CSS pixels,
+	 * or null if it is behind the camera
+	 *
+	 * @param size - Size of the target element in CSS pixels, e.g. the WebXR DOM
+	 * overlay, if it differs from the canvas. Uses the active camera.
+	 */
+	public getAnnotationScreenPosition(
+		id: string,
+		size?: { width: number; height: number }
+	): { x: number; y: number } | null {
+		const position = this.getAnnotationWorldPosition(id)
+		if (!position) return null
+
+		const engine = this.scene.getEngine()
+		const viewport = size
+			? new Viewport(0, 0, size.width, size.height)
+			: this.camera.viewport.toGlobal(engine.getRenderWidth(), engine.getRenderHeight())
+		const projected = Vector3.Project(
+			position,
+			Matrix.IdentityReadOnly,
+			this.scene.getTransformMatrix(),
+			viewport
+		)
+		if (projected.z < 0 || projected.z > 1) return null
+
+		const scaling = size ? 1 : engine.getHardwareScalingLevel()
+		return { x: projected.x * scaling, y: projected.y * scaling }
+	}
+
 	public clearAnnotations(): void {
 		for (const rendered of this.renderedAnnotations.values()) {
 			this.disposeRenderedAnnotation(rendered)
 		}
 		this.renderedAnnotations.clear()
+		this.focusedId = null
+		this.hoveredId = null
 	}
 
-	public onAnnotationEvent(eventType: string, callback: (event: AnnotationEvent) => void): void {
-		this.eventCallbacks.set(eventType, callback)
+	/**
+	 * Subscribes to annotation events
+	 *
+	 * @returns A function that removes the subscription
+	 */
+	public onAnnotationEvent(
+		eventType: AnnotationEventType,
+		callback: (event: AnnotationEvent) => void
+	): () => void {
+		let callbacks = this.eventCallbacks.get(eventType)
+		if (!callbacks) {
+			callbacks = new Set()
+			this.eventCallbacks.set(eventType, callbacks)
+		}
+		callbacks.add(callback)
+
+		return () => {
+			callbacks.delete(callback)
+		}
+	}
+
+	private emit(
+		type: AnnotationEventType,
+		rendered: RenderedAnnotation,
+		screenPosition?: { x: number; y: number },
+		position?: Vector3
+	): void {
+		const callbacks = this.eventCallbacks.get(type)
+		if (!callbacks || callbacks.size === 0) return
+
+		const event: AnnotationEvent = {
+			type,
+			annotation: rendered.annotation,
+			position: position ?? rendered.annotation.position,
+			screenPosition:
+				screenPosition ?? this.getAnnotationScreenPosition(rendered.id) ?? undefined
+		}
+		for (const callback of callbacks) {
+			callback(event)
+		}
+	}
+
+	/**
+	 * Moves keyboard focus to an annotation (null clears it), emitting blur
+	 * and focus events. The focused annotation is highlighted.
+	 */
+	public focusAnnotation(id: string | null): void {
+		if (id === this.focusedId) return
+
+		const previous = this.focusedId ? this.renderedAnnotations.get(this.focusedId) : undefined
+		this.focusedId = null
+		if (previous) {
+			this.highlightAnnotation(previous.id, false)
+			this.emit('blur', previous)
+		}
+
+		const next = id ? this.renderedAnnotations.get(id) : undefined
+		if (next) {
+			this.focusedId = next.id
+			this.highlightAnnotation(next.id, true)
+			this.emit('focus', next)
+		}
+	}
+
+	public getFocusedAnnotationId(): string | null {
+		return this.focusedId
+	}
+
+	/**
+	 * Emits a click event for an annotation, e.g. when it is opened with the keyboard
+	 */
+	public activateAnnotation(id: string): void {
+		const rendered = this.renderedAnnotations.get(id)
+		if (rendered) this.emit('click', rendered)
+	}
+
+	/**
+	 * Whether an annotation is shown, i.e. not hidden by a filter or visibility setting
+	 */
+	public isAnnotationVisible(id: string): boolean {
+		return !!this.renderedAnnotations.get(id)?.isVisible
 	}
 
 	public update(): void {
 		if (this.config.scaleWithDistance) {
 			this.updateDistanceScaling()
 		}
+
+		const now = performance.now()
+		if (now - this.lastOcclusionUpdate >= OCCLUSION_UPDATE_INTERVAL_MS) {
+			this.lastOcclusionUpdate = now
+			this.updateVisibility()
+		}
+	}
+
+	public updateConfig(config: Partial<AnnotationConfig>): void {
+		const occlusionChanged =
+			config.occlusionMode !== undefined && config.occlusionMode !== this.config.occlusionMode
+		this.config = { ...this.config, ...config }
+		this.lastOcclusionUpdate = 0
+
+		if (occlusionChanged) {
+			for (const rendered of this.renderedAnnotations.values()) {
+				this.applyRenderingGroup(rendered.marker)
+				if (rendered.label) this.applyRenderingGroup(rendered.label)
+			}
+		}
+	}
+
+	private applyRenderingGroup(mesh: Mesh): void {
+		const group = this.config.occlusionMode === 'none' ? 0 : ANNOTATION_RENDERING_GROUP
+		mesh.renderingGroupId = group
+		mesh.getChildMeshes().forEach((child) => (child.renderingGroupId = group))
+	}
+
+	/**
+	 * Sets the meshes that hide annotations behind them, usually the meshes
+	 * of the loaded model
+	 */
+	public setOccluders(meshes: AbstractMesh[]): void {
+		this.occluders = new Set(meshes)
+		this.lastOcclusionUpdate = 0
+	}
+
+	/**
+	 * Fades or hides markers and labels that are occluded by the model, far
+	 * away (fadeDistance) or beyond the nearest maxVisibleAnnotations
+	 */
+	private updateVisibility(): void {
+		const cameraPosition = (this.xrCamera ?? this.camera).globalPosition
+		const parentMatrix = this.annotationParent.computeWorldMatrix(true)
+
+		const candidates: Array<{ rendered: RenderedAnnotation; distance: number }> = []
+		for (const rendered of this.renderedAnnotations.values()) {
+			if (!rendered.isVisible) continue
+
+			const position = Vector3.TransformCoordinates(
+				rendered.annotation.position,
+				parentMatrix
+			)
+			const distance = Vector3.Distance(cameraPosition, position)
+			rendered.isOccluded = this.isOccluded(cameraPosition, position, distance, rendered)
+			candidates.push({ rendered, distance })
+		}
+
+		// Highlighted annotations first, then unoccluded ones, each nearest first
+		candidates.sort(
+			(a, b) =>
+				Number(b.rendered.isHighlighted) - Number(a.rendered.isHighlighted) ||
+				Number(a.rendered.isOccluded) - Number(b.rendered.isOccluded) ||
+				a.distance - b.distance
+		)
+
+		candidates.forEach(({ rendered, distance }, index) => {
+			let opacity = index < this.config.maxVisibleAnnotations ? 1 : 0
+
+			const fadeDistance = this.xrCamera ? 0 : this.config.fadeDistance
+			if (fadeDistance > 0 && distance > fadeDistance) {
+				opacity *= Math.max(0, 1 - (distance - fadeDistance) / fadeDistance)
+			}
+
+			if (rendered.isOccluded) {
+				opacity *= this.config.occlusionMode === 'hide' ? 0 : this.config.occludedOpacity
+			}
+
+			this.setAnnotationOpacity(rendered, opacity)
+		})
+	}
+
+	private isOccluded(
+		cameraPosition: Vector3,
+		position: Vector3,
+		distance: number,
+		rendered: RenderedAnnotation
+	): boolean {
+		if (this.config.occlusionMode === 'none' || this.occluders.size === 0) return false
+
+		// Annotations sit on the surface, so stop the ray shortly before the point
+		const tolerance = Math.max(rendered.annotation.style.size, distance * 0.01)
+		if (distance <= tolerance) return false
+
+		const direction = position.subtract(cameraPosition).normalize()
+		const ray = new Ray(cameraPosition, direction, distance - tolerance)
+		const pick = this.scene.pickWithRay(
+			ray,
+			(mesh) => this.occluders.has(mesh) && mesh.isEnabled() && mesh.isVisible,
+			true
+		)
+		return !!pick?.hit
+	}
+
+	private setAnnotationOpacity(rendered: RenderedAnnotation, opacity: number): void {
+		const visible = opacity > 0.01
+		rendered.marker.isVisible = visible
+		rendered.marker.getChildMeshes().forEach((child) => (child.isVisible = visible))
+
+		const markerMaterial = rendered.marker.material as StandardMaterial | null
+		if (markerMaterial) {
+			markerMaterial.alpha = rendered.annotation.style.opacity * opacity
+		}
+
+		if (rendered.label) {
+			rendered.label.isVisible = visible
+			const labelMaterial = rendered.label.material as StandardMaterial | null
+			if (labelMaterial) labelMaterial.alpha = opacity
+		}
 	}
 
 	private createRenderedAnnotation(annotation: Annotation3D): RenderedAnnotation {
 		const marker = this.createMarker(annotation)
 		const label = this.createLabel(annotation)
+		const { outline, fill } = this.createShape(annotation)
 
 		const rendered: RenderedAnnotation = {
 			id: annotation.id,
 			annotation,
 			marker,
 			label,
+			outline,
+			fill,
 			isVisible: annotation.visibility,
 			isHighlighted: false
 		}
@@ -178,6 +569,7 @@ export class AnnotationRenderer {
 
 		marker.position = annotation.position.clone()
 		marker.parent = this.annotationParent
+		this.applyRenderingGroup(marker)
 
 		const material = new StandardMaterial(`marker_mat_${annotation.id}`, this.scene)
 		material.diffuseColor = Color3.FromHexString(annotation.style.color)
@@ -192,48 +584,208 @@ export class AnnotationRenderer {
 		return marker
 	}
 
+	/**
+	 * Creates the outline and optional fill for polygon and region annotations.
+	 * Point annotations have no shape and return an empty object.
+	 */
+	private createShape(annotation: Annotation3D): { outline?: Mesh; fill?: Mesh } {
+		if (isRegionAnnotation(annotation)) {
+			return this.createRegionShape(annotation)
+		}
+
+		if (!isPolygonAnnotation(annotation) || annotation.vertices.length < 2) {
+			return {}
+		}
+
+		const color = Color3.FromHexString(annotation.style.color)
+		const holes = annotation.closed ? (annotation.holes ?? []) : []
+		const lines = [annotation.vertices, ...holes].map((ring) =>
+			annotation.closed ? [...ring, ring[0]] : ring
+		)
+
+		const outline: LinesMesh = MeshBuilder.CreateLineSystem(
+			`outline_${annotation.id}`,
+			{ lines },
+			this.scene
+		)
+		outline.color = color
+		outline.alpha = annotation.style.opacity
+		outline.isPickable = false
+		outline.parent = this.annotationParent
+
+		const fillOpacity = annotation.style.fillOpacity ?? 0
+		if (!annotation.closed || annotation.vertices.length < 3 || fillOpacity <= 0) {
+			return { outline }
+		}
+
+		// Indices cover the outer ring followed by the holes
+		const indices = triangulatePolygon(annotation.vertices, holes)
+		if (indices.length === 0) {
+			return { outline }
+		}
+
+		const fill = new Mesh(`fill_${annotation.id}`, this.scene)
+		const vertexData = new VertexData()
+		vertexData.positions = [annotation.vertices, ...holes]
+			.flat()
+			.flatMap((v) => [v.x, v.y, v.z])
+		vertexData.indices = indices
+		const normals: number[] = []
+		VertexData.ComputeNormals(vertexData.positions, indices, normals)
+		vertexData.normals = normals
+		vertexData.applyToMesh(fill)
+
+		const material = new StandardMaterial(`fill_mat_${annotation.id}`, this.scene)
+		material.diffuseColor = color
+		material.emissiveColor = color.scale(0.5)
+		material.alpha = fillOpacity
+		material.backFaceCulling = false
+		// Keep the fill from z-fighting with the model surface it is drawn on
+		material.zOffset = -2
+		fill.material = material
+		fill.isPickable = false
+		fill.parent = this.annotationParent
+
+		return { outline, fill }
+	}
+
+	/**
+	 * Creates a translucent box volume with edge lines for region annotations
+	 */
+	private createRegionShape(annotation: RegionAnnotation3D): { outline?: Mesh; fill?: Mesh } {
+		const { min, max } = annotation.boundingBox
+		const color = Color3.FromHexString(annotation.style.color)
+
+		const corners = [
+			new Vector3(min.x, min.y, min.z),
+			new Vector3(max.x, min.y, min.z),
+			new Vector3(max.x, min.y, max.z),
+			new Vector3(min.x, min.y, max.z),
+			new Vector3(min.x, max.y, min.z),
+			new Vector3(max.x, max.y, min.z),
+			new Vector3(max.x, max.y, max.z),
+			new Vector3(min.x, max.y, max.z)
+		]
+		const edges = [
+			[0, 1],
+			[1, 2],
+			[2, 3],
+			[3, 0],
+			[4, 5],
+			[5, 6],
+			[6, 7],
+			[7, 4],
+			[0, 4],
+			[1, 5],
+			[2, 6],
+			[3, 7]
+		]
+
+		const outline = MeshBuilder.CreateLineSystem(
+			`outline_${annotation.id}`,
+			{ lines: edges.map(([a, b]) => [corners[a], corners[b]]) },
+			this.scene
+		)
+		outline.color = color
+		outline.alpha = annotation.style.opacity
+		outline.isPickable = false
+		outline.parent = this.annotationParent
+
+		const size = max.subtract(min)
+		const fill = MeshBuilder.CreateBox(
+			`fill_${annotation.id}`,
+			{
+				width: Math.max(size.x, 0.001),
+				height: Math.max(size.y, 0.001),
+				depth: Math.max(size.z, 0.001)
+			},
+			this.scene
+		)
+		fill.position = Vector3.Center(min, max)
+
+		const material = new StandardMaterial(`fill_mat_${annotation.id}`, this.scene)
+		material.diffuseColor = color
+		material.emissiveColor = color.scale(0.5)
+		material.alpha = annotation.style.fillOpacity ?? 0
+		material.backFaceCulling = false
+		fill.material = material
+		fill.isPickable = false
+		fill.parent = this.annotationParent
+
+		return { outline, fill }
+	}
+
 	private createLabel(annotation: Annotation3D): Mesh | undefined {
-		if (!annotation.content.description) return undefined
+		if (!annotation.content.description && !annotation.content.title) return undefined
 
 		const labelStyle = annotation.style.labelStyle
+		const measureContext = this.getMeasureContext()
+		if (!measureContext) return undefined
 
+		const paragraphs = contentToParagraphs(annotation.content)
+		if (paragraphs.length === 0) return undefined
+
+		const layout = layoutLabel(measureContext, paragraphs, {
+			fontSize: labelStyle.fontSize,
+			maxWidth: labelStyle.maxWidth,
+			padding: labelStyle.padding
+		})
+
+		// Render at a higher resolution than the layout so text stays sharp
 		const texture = new DynamicTexture(
 			`label_texture_${annotation.id}`,
-			{ width: 512, height: 256 },
+			{
+				width: Math.ceil(layout.width * LABEL_TEXTURE_SCALE),
+				height: Math.ceil(layout.height * LABEL_TEXTURE_SCALE)
+			},
 			this.scene
 		)
+		texture.hasAlpha = true
 
-		const font = `${labelStyle.fontSize}px Arial`
-		texture.drawText(
-			annotation.content.description,
-			null,
-			null,
-			font,
-			labelStyle.textColor,
-			labelStyle.backgroundColor,
-			true
-		)
+		const context = texture.getContext() as unknown as CanvasRenderingContext2D
+		context.save()
+		context.scale(LABEL_TEXTURE_SCALE, LABEL_TEXTURE_SCALE)
+		drawLabel(context, layout, labelStyle.fontSize, labelStyle, labelStyle.borderRadius)
+		context.restore()
+		texture.update()
 
+		// 1 layout pixel = 1 mm
+		const width = layout.width / 1000
+		const height = layout.height / 1000
 		const label = MeshBuilder.CreatePlane(
 			`label_${annotation.id}`,
-			{ width: labelStyle.maxWidth / 1000, height: labelStyle.maxWidth / 2 / 1000 },
+			{ width, height },
 			this.scene
 		)
 
+		// Move the plane next to its anchor point. As the label is a billboard,
+		// the offset baked into the vertices is in screen space.
+		const anchorOffset = getLabelAnchorOffset(labelStyle.position, width, height)
+		label.bakeTransformIntoVertices(Matrix.Translation(anchorOffset.x, anchorOffset.y, 0))
+
 		const material = new StandardMaterial(`label_mat_${annotation.id}`, this.scene)
 		material.diffuseTexture = texture
 		material.useAlphaFromDiffuseTexture = true
+		material.disableLighting = true
 
 		label.material = material
 		label.billboardMode = Mesh.BILLBOARDMODE_ALL
+		label.isPickable = false
+		this.applyRenderingGroup(label)
 
-		const offset = labelStyle.offset || new Vector3(0, annotation.style.size * 2, 0)
-		label.position = annotation.position.add(offset)
+		label.position = getLabelPosition(annotation)
 		label.parent = this.annotationParent
 
 		return label
 	}
 
+	private getMeasureContext(): CanvasRenderingContext2D | null {
+		if (!this.measureContext && typeof document !== 'undefined') {
+			this.measureContext = document.createElement('canvas').getContext('2d')
+		}
+		return this.measureContext
+	}
+
 	private setupMarkerInteraction(rendered: RenderedAnnotation): void {
 		const marker = rendered.marker
 
@@ -242,6 +794,11 @@ export class AnnotationRenderer {
 
 		marker.isPickable = true
 		marker.metadata = { annotationId: rendered.id }
+
+		if (rendered.fill) {
+			rendered.fill.isPickable = true
+			rendered.fill.metadata = { annotationId: rendered.id }
+		}
 	}
 
 	private updateAnnotationAppearance(rendered: RenderedAnnotation): void {
@@ -259,15 +816,48 @@ export class AnnotationRenderer {
 				material.emissiveColor = Color3.Black()
 			}
 		}
+
+		const shapeColor = Color3.FromHexString(
+			rendered.isHighlighted && rendered.annotation.style.highlightColor
+				? rendered.annotation.style.highlightColor
+				: rendered.annotation.style.color
+		)
+		if (rendered.outline) {
+			;(rendered.outline as LinesMesh).color = shapeColor
+		}
+		const fillMaterial = rendered.fill?.material as StandardMaterial | null | undefined
+		if (fillMaterial) {
+			fillMaterial.diffuseColor = shapeColor
+			fillMaterial.emissiveColor = shapeColor.scale(0.5)
+		}
 	}
 
-	private updateRenderedAnnotation(rendered: RenderedAnnotation): void {
+	/**
+	 * Updates the meshes after the annotation changed. The label texture is only
+	 * redrawn if its text or style changed, e.g. not while a marker is dragged.
+	 */
+	private updateRenderedAnnotation(rendered: RenderedAnnotation, previous?: Annotation3D): void {
 		rendered.marker.position = rendered.annotation.position.clone()
-		if (rendered.label) {
-			const offset =
-				rendered.annotation.style.labelStyle.offset ||
-				new Vector3(0, rendered.annotation.style.size * 2, 0)
-			rendered.label.position = rendered.annotation.position.add(offset)
+
+		if (rendered.label && previous && hasSameLabel(previous, rendered.annotation)) {
+			rendered.label.position = getLabelPosition(rendered.annotation)
+		} else {
+			rendered.label?.dispose(false, true)
+			rendered.label = this.createLabel(rendered.annotation)
+			rendered.label?.setEnabled(rendered.isVisible)
+		}
+
+		if (isPolygonAnnotation(rendered.annotation) || isRegionAnnotation(rendered.annotation)) {
+			rendered.outline?.dispose()
+			rendered.fill?.dispose(false, true)
+			const { outline, fill } = this.createShape(rendered.annotation)
+			rendered.outline = outline
+			rendered.fill = fill
+			if (this.config.enableInteraction && rendered.annotation.interactive) {
+				this.setupMarkerInteraction(rendered)
+			}
+			outline?.setEnabled(rendered.isVisible)
+			fill?.setEnabled(rendered.isVisible)
 		}
 
 		this.updateAnnotationAppearance(rendered)
@@ -275,37 +865,51 @@ export class AnnotationRenderer {
 
 	private disposeRenderedAnnotation(rendered: RenderedAnnotation): void {
 		rendered.marker.dispose()
-		if (rendered.label) {
-			rendered.label.dispose()
-		}
+		rendered.label?.dispose(false, true)
+		rendered.outline?.dispose()
+		rendered.fill?.dispose(false, true)
 		if (rendered.labelTexture) {
 			rendered.labelTexture.dispose()
 		}
 	}
 
-	private matchesFilter(annotation: Annotation3D, filter: AnnotationFilter): boolean {
-		if (filter.categories && annotation.metadata?.category) {
-			if (!filter.categories.includes(annotation.metadata.category)) {
-				return false
-			}
+	private updateDistanceScaling(): void {
+		if (this.xrCamera) {
+			this.updateXRDistanceScaling(this.xrCamera)
+			return
 		}
 
-		if (filter.searchText && annotation.content.description) {
-			const searchLower = filter.searchText.toLowerCase()
-			if (!annotation.content.description.toLowerCase().includes(searchLower)) {
-				return false
+		const cameraPosition = this.camera.position
+
+		for (const rendered of this.renderedAnnotations.values()) {
+			const distance = Vector3.Distance(cameraPosition, rendered.annotation.position)
+			const scale = Math.max(0.5, Math.min(2.0, distance / 5.0))
+
+			rendered.marker.scaling.setAll(scale)
+			if (rendered.label) {
+				rendered.label.scaling.setAll(scale)
 			}
 		}
-
-		return true
 	}
 
-	private updateDistanceScaling(): void {
-		const cameraPosition = this.camera.position
+	/**
+	 * Sizes markers relative to their distance from the XR camera, compensating
+	 * the scale of the annotation parent (model units and AR scale)
+	 */
+	private updateXRDistanceScaling(camera: Camera): void {
+		const cameraPosition = camera.globalPosition
+		const parentMatrix = this.annotationParent.computeWorldMatrix(true)
+		const parentScale = Vector3.TransformNormal(Vector3.Right(), parentMatrix).length()
+		if (parentScale === 0) return
 
 		for (const rendered of this.renderedAnnotations.values()) {
-			const distance = Vector3.Distance(cameraPosition, rendered.annotation.position)
-			const scale = Math.max(0.5, Math.min(2.0, distance / 5.0))
+			const position = Vector3.TransformCoordinates(
+				rendered.annotation.position,
+				parentMatrix
+			)
+			const distance = Vector3.Distance(cameraPosition, position)
+			const worldSize = distance * XR_MARKER_ANGULAR_SIZE
+			const scale = worldSize / (rendered.annotation.style.size * parentScale)
 
 			rendered.marker.scaling.setAll(scale)
 			if (rendered.label) {
@@ -315,38 +919,109 @@ export class AnnotationRenderer {
 	}
 
 	private setupEventHandlers(): void {
-		this.scene.onPointerObservable.add((pointerInfo) => {
-			if (pointerInfo.pickInfo?.hit && pointerInfo.pickInfo.pickedMesh) {
-				const mesh = pointerInfo.pickInfo.pickedMesh
-				const annotationId = mesh.metadata?.annotationId
-
-				if (annotationId) {
-					const rendered = this.renderedAnnotations.get(annotationId)
-					if (rendered) {
-						const event: AnnotationEvent = {
-							type: 'click',
-							annotation: rendered.annotation,
-							position:
-								pointerInfo.pickInfo.pickedPoint || rendered.annotation.position,
-							screenPosition: {
-								x: pointerInfo.event.offsetX,
-								y: pointerInfo.event.offsetY
-							}
-						}
-
-						const callback = this.eventCallbacks.get('click')
-						if (callback) {
-							callback(event)
-						}
-					}
-				}
+		this.pointerObserver = this.scene.onPointerObservable.add((pointerInfo) => {
+			switch (pointerInfo.type) {
+				case PointerEventTypes.POINTERTAP:
+					this.handleTap(pointerInfo)
+					break
+				case PointerEventTypes.POINTERMOVE:
+					// No hover changes while the camera is dragged, and no hover in XR
+					if (pointerInfo.event.buttons === 0 && !this.xrCamera)
+						this.handleHover(pointerInfo)
+					break
 			}
 		})
 	}
 
+	private handleTap(pointerInfo: PointerInfo): void {
+		let pickInfo = pointerInfo.pickInfo
+		// XR taps and controller rays pick the nearest mesh, but markers are drawn on
+		// top of the model: pick along the same ray for annotations only
+		if (this.xrCamera && pickInfo?.ray && !pickInfo.pickedMesh?.metadata?.annotationId) {
+			pickInfo = this.scene.pickWithRay(
+				pickInfo.ray,
+				(mesh) => !!mesh.metadata?.annotationId && mesh.isVisible && mesh.isEnabled()
+			)
+		}
+		const annotationId = pickInfo?.hit ? pickInfo.pickedMesh?.metadata?.annotationId : undefined
+		const rendered = annotationId ? this.renderedAnnotations.get(annotationId) : undefined
+		if (!rendered || !pickInfo) return
+
+		this.emit(
+			'click',
+			rendered,
+			{ x: pointerInfo.event.offsetX, y: pointerInfo.event.offsetY },
+			pickInfo.pickedPoint ?? undefined
+		)
+	}
+
+	private handleHover(pointerInfo: PointerInfo): void {
+		const pick = this.scene.pick(
+			this.scene.pointerX,
+			this.scene.pointerY,
+			(mesh) => !!mesh.metadata?.annotationId && mesh.isVisible && mesh.isEnabled()
+		)
+		const annotationId: string | null = pick?.hit
+			? (pick.pickedMesh?.metadata?.annotationId ?? null)
+			: null
+		if (annotationId === this.hoveredId) return
+
+		const screenPosition = { x: pointerInfo.event.offsetX, y: pointerInfo.event.offsetY }
+		const previous = this.hoveredId ? this.renderedAnnotations.get(this.hoveredId) : undefined
+		if (previous) this.emit('leave', previous, screenPosition)
+
+		this.hoveredId = annotationId
+		const rendered = annotationId ? this.renderedAnnotations.get(annotationId) : undefined
+		if (rendered) this.emit('hover', rendered, screenPosition, pick?.pickedPoint ?? undefined)
+
+		const element = this.scene.getEngine().getInputElement()
+		if (element) element.style.cursor = rendered ? 'pointer' : ''
+	}
+
 	public dispose(): void {
+		if (this.pointerObserver) {
+			this.scene.onPointerObservable.remove(this.pointerObserver)
+			this.pointerObserver = null
+		}
 		this.clearAnnotations()
 		this.annotationParent.dispose()
 		this.eventCallbacks.clear()
 	}
 }
+
+/**
+ * Anchor point of an annotation's label, above the marker unless the style sets an offset
+ */
+function getLabelPosition(annotation: Annotation3D): Vector3 {
+	const offset =
+		annotation.style.labelStyle.offset || new Vector3(0, annotation.style.size * 2, 0)
+	return annotation.position.add(offset)
+}
+
+/**
+ * Whether two versions of an annotation render the same label text and style
+ */
+function hasSameLabel(a: Annotation3D, b: Annotation3D): boolean {
+	return JSON.stringify([a.content, a.style]) === JSON.stringify([b.content, b.style])
+}
+
+/**
+ * Offset of the label center from its anchor point for a LabelStyle position.
+ * 'auto' places the label above the anchor.
+ */
+function getLabelAnchorOffset(
+	position: LabelStyle['position'],
+	width: number,
+	height: number
+): { x: number; y: number } {
+	switch (position) {
+		case 'below':
+			return { x: 0, y: -height / 2 }
+		case 'left':
+			return { x: -width / 2, y: 0 }
+		case 'right':
+			return { x: width / 2, y: 0 }
+		default:
+			return { x: 0, y: height / 2 }
+	}
+}
@@ -0,0 +1,169 @@
+/**
+ * Annotation Tour Service
+ *
+ * Steps through annotations in a curated order, e.g. as a storytelling
+ * sequence for museum visitors. The tour only keeps track of the current stop
+ * and the autoplay timer; moving the camera and showing the annotation is left
+ * to the onStop callback.
+ */
+
+import type { Annotation3D } from '../types/annotations'
+
+/** Default time an autoplaying tour stays at a stop, in milliseconds */
+export const DEFAULT_TOUR_INTERVAL_MS = 6000
+
+export interface AnnotationTourCallbacks {
+	/** Called when the tour arrives at a stop; may return a promise (e.g. a camera flight) */
+	onStop: (annotation: Annotation3D, index: number) => Promise<void> | void
+	/** Called when the tour ends or is stopped */
+	onEnd?: () => void
+	/** Called whenever the current stop or the playing state changes */
+	onChange?: (index: number, isPlaying: boolean) => void
+}
+
+/**
+ * Returns the annotations of a tour in order.
+ * Annotations with a `tourOrder` form the tour, sorted ascending. If none
+ * defines an order, all annotations are used in their original order.
+ */
+export function getTourStops(annotations: Annotation3D[]): Annotation3D[] {
+	const ordered = annotations.filter((a) => typeof a.metadata?.tourOrder === 'number')
+	if (ordered.length === 0) return [...annotations]
+
+	return ordered.sort((a, b) => a.metadata!.tourOrder! - b.metadata!.tourOrder!)
+}
+
+export class AnnotationTour {
+	private stops: Annotation3D[]
+	private callbacks: AnnotationTourCallbacks
+	private interval: number
+	private index = -1
+	private playing = false
+	private timer: ReturnType<typeof setTimeout> | null = null
+	// Incremented on every move, so a finished flight of an old stop is ignored
+	private moveId = 0
+
+	constructor(
+		stops: Annotation3D[],
+		callbacks: AnnotationTourCallbacks,
+		interval = DEFAULT_TOUR_INTERVAL_MS
+	) {
+		this.stops = stops
+		this.callbacks = callbacks
+		this.interval = interval
+	}
+
+	public get length(): number {
+		return this.stops.length
+	}
+
+	public get currentIndex(): number {
+		return this.index
+	}
+
+	public get currentStop(): Annotation3D | null {
+		return this.stops[this.index] ?? null
+	}
+
+	public get isPlaying(): boolean {
+		return this.playing
+	}
+
+	public get isActive(): boolean {
+		return this.index >= 0
+	}
+
+	/**
+	 * Starts the tour at the first stop
+	 */
+	public start(autoplay = false): void {
+		if (this.stops.length === 0) return
+		this.playing = autoplay
+		this.goTo(0)
+	}
+
+	public next(): void {
+		if (this.index < this.stops.length - 1) {
+			this.goTo(this.index + 1)
+		} else if (this.playing) {
+			this.pause()
+		}
+	}
+
+	public previous(): void {
+		if (this.index > 0) {
+			this.goTo(this.index - 1)
+		}
+	}
+
+	public goTo(index: number): void {
+		if (index < 0 || index >= this.stops.length) return
+
+		this.clearTimer()
+		this.index = index
+		const moveId = ++this.moveId
+		this.callbacks.onChange?.(this.index, this.playing)
+
+		Promise.resolve(this.callbacks.onStop(this.stops[index], index))
+			.catch((err) => console.error('Failed to show tour stop:', err))
+			.then(() => {
+				if (moveId === this.moveId) this.scheduleNext()
+			})
+	}
+
+	public play(): void {
+		if (this.stops.length === 0) return
+		this.playing = true
+
+		if (this.index < 0 || this.index >= this.stops.length - 1) {
+			this.goTo(0)
+		} else {
+			this.callbacks.onChange?.(this.index, this.playing)
+			this.scheduleNext()
+		}
+	}
+
+	public pause(): void {
+		this.playing = false
+		this.clearTimer()
+		this.callbacks.onChange?.(this.index, this.playing)
+	}
+
+	/**
+	 * Ends the tour
+	 */
+	public stop(): void {
+		if (this.index < 0) return
+
+		this.clearTimer()
+		this.moveId++
+		this.playing = false
+		this.index = -1
+		this.callbacks.onChange?.(this.index, this.playing)
+		this.callbacks.onEnd?.()
+	}
+
+	private scheduleNext(): void {
+		this.clearTimer()
+		if (!this.playing) return
+
+		if (this.index >= this.stops.length - 1) {
+			// Stay at the last stop, but stop playing
+			this.timer = setTimeout(() => this.pause(), this.interval)
+			return
+		}
+		this.timer = setTimeout(() => this.next(), this.interval)
+	}
+
+	private clearTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = null
+		}
+	}
+
+	public dispose(): void {
+		this.clearTimer()
+		this.moveId++
+	}
+}
@@ -0,0 +1,510 @@
+/**
+ * AR Placement Service
+ *
+ * Placement flow for immersive WebXR AR sessions: a reticle follows hit-test
+ * results on detected surfaces, a tap places the model there (as an anchor,
+ * if the browser supports anchors), and touch gestures adjust it afterwards:
+ *
+ * - one finger: drag to move the model across the surface
+ * - two fingers: pinch to scale, twist to rotate
+ * - long press: reset, i.e. pick up the model and place it again
+ *
+ * The model is parented to two nodes: the anchor node follows the anchor
+ * pose, the gesture node below it holds the user's move, rotate and scale.
+ */
+
+import '@babylonjs/core/XR/features/WebXRHitTest'
+import '@babylonjs/core/XR/features/WebXRAnchorSystem'
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { Nullable } from '@babylonjs/core/types'
+import type { Node } from '@babylonjs/core/node'
+import { Quaternion, Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { Plane } from '@babylonjs/core/Maths/math.plane'
+import { Color3 } from '@babylonjs/core/Maths/math.color'
+import { Ray } from '@babylonjs/core/Culling/ray'
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
+import { CreateTorus } from '@babylonjs/core/Meshes/Builders/torusBuilder'
+import type { Mesh } from '@babylonjs/core/Meshes/mesh'
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
+import { WebXRFeatureName } from '@babylonjs/core/XR/webXRFeaturesManager'
+import type { WebXRDefaultExperience } from '@babylonjs/core/XR/webXRDefaultExperience'
+import type { WebXRHitTest, IWebXRHitResult } from '@babylonjs/core/XR/features/WebXRHitTest'
+import type { WebXRAnchorSystem, IWebXRAnchor } from '@babylonjs/core/XR/features/WebXRAnchorSystem'
+import type { WebXRInputSource } from '@babylonjs/core/XR/webXRInputSource'
+
+/** Limits of the pinch scale, relative to the scale at placement */
+const MIN_USER_SCALE = 0.1
+const MAX_USER_SCALE = 10
+
+/** A touch held longer than this without moving resets the placement */
+const LONG_PRESS_DURATION_MS = 800
+/** Movement (in normalized screen units, -1…1) below which a touch counts as not moving */
+const TOUCH_SLOP = 0.04
+
+export interface ARPlacementState {
+	/** Whether the model has been placed on a surface */
+	isPlaced: boolean
+	/** Whether the reticle currently is on a detected surface */
+	hasSurface: boolean
+	/** Display scale relative to the real size (scale preset × pinch) */
+	scale: number
+}
+
+export interface ARPlacementCallbacks {
+	/** Called whenever the placement state changes */
+	onChange?: (state: ARPlacementState) => void
+}
+
+export interface ARPlacementOptions {
+	/** Meters per model unit (see unitDetection) */
+	metersPerUnit: number
+	/** Scale factor of the selected AR scale preset (see arScaling) */
+	scaleFactor: number
+}
+
+interface Touch {
+	controller: WebXRInputSource
+	start: { x: number; y: number }
+	current: { x: number; y: number }
+	startTime: number
+	moved: boolean
+}
+
+interface SavedTransform {
+	parent: Nullable<Node>
+	position: Vector3
+	scaling: Vector3
+}
+
+export class ARPlacement {
+	private xr: WebXRDefaultExperience
+	private scene: Scene
+	private callbacks: ARPlacementCallbacks
+	private hitTest: WebXRHitTest | null = null
+	private anchorSystem: WebXRAnchorSystem | null = null
+
+	private reticle: Mesh | null = null
+	private anchorNode: TransformNode | null = null
+	private gestureNode: TransformNode | null = null
+	private anchor: IWebXRAnchor | null = null
+
+	private modelRoot: TransformNode | null = null
+	private saved: SavedTransform | null = null
+	private scaleFactor = 1
+	private userScale = 1
+
+	private lastHit: IWebXRHitResult | null = null
+	private placed = false
+	private touches = new Map<string, Touch>()
+	// Gesture start values, reset whenever the number of touches changes
+	private gesture: {
+		distance: number
+		angle: number
+		scale: number
+		rotation: number
+		dragOffset: Vector3 | null
+	} | null = null
+	private gestureHadMultipleTouches = false
+	private longPressHandled = false
+
+	private hitTestObserver: Observer<IWebXRHitResult[]> | null = null
+	private controllerAddedObserver: Observer<WebXRInputSource> | null = null
+	private controllerRemovedObserver: Observer<WebXRInputSource> | null = null
+	private frameObserver: Observer<Scene> | null = null
+	private session: XRSession | null = null
+	private selectListener = () => this.handleSelect()
+
+	constructor(xr: WebXRDefaultExperience, scene: Scene, callbacks: ARPlacementCallbacks = {}) {
+		this.xr = xr
+		this.scene = scene
+		this.callbacks = callbacks
+
+		// Features have to be enabled before the session starts. They are optional,
+		// so the same experience can also start VR sessions, which lack hit-tests.
+		const featuresManager = xr.baseExperience.featuresManager
+		try {
+			this.hitTest = featuresManager.enableFeature(
+				WebXRFeatureName.HIT_TEST,
+				'latest',
+				{},
+				true,
+				false
+			)
+		} catch (err) {
+			console.warn('[AR Placement] Hit-test is not available:', err)
+		}
+		try {
+			this.anchorSystem = featuresManager.enableFeature(
+				WebXRFeatureName.ANCHOR_SYSTEM,
+				'latest',
+				{},
+				true,
+				false
+			)
+		} catch (err) {
+			console.warn('[AR Placement] Anchors are not available:', err)
+		}
+	}
+
+	public get state(): ARPlacementState {
+		return {
+			isPlaced: this.placed,
+			hasSurface: !!this.lastHit,
+			scale: this.scaleFactor * this.userScale
+		}
+	}
+
+	/**
+	 * Starts the placement flow for a model, called after entering XR.
+	 * The model is hidden until it is placed.
+	 *
+	 * @param modelRoot - Root node of the model (the glTF __root__)
+	 * @param options - Unit and scale preset of the model
+	 */
+	public start(modelRoot: TransformNode, options: ARPlacementOptions): void {
+		this.stop()
+
+		this.modelRoot = modelRoot
+		this.saved = {
+			parent: modelRoot.parent,
+			position: modelRoot.position.clone(),
+			scaling: modelRoot.scaling.clone()
+		}
+		this.scaleFactor = options.scaleFactor
+		this.userScale = 1
+
+		// Scale to meters and the preset, then move the bottom center of the model to the origin
+		modelRoot.parent = null
+		modelRoot.scaling.scaleInPlace(options.metersPerUnit * options.scaleFactor)
+		modelRoot.computeWorldMatrix(true)
+		const { min, max } = modelRoot.getHierarchyBoundingVectors(true)
+		modelRoot.position.subtractInPlace(
+			new Vector3((min.x + max.x) / 2, min.y, (min.z + max.z) / 2)
+		)
+
+		this.anchorNode = new TransformNode('arPlacementAnchor', this.scene)
+		this.anchorNode.rotationQuaternion = Quaternion.Identity()
+		this.gestureNode = new TransformNode('arPlacementGesture', this.scene)
+		this.gestureNode.parent = this.anchorNode
+		modelRoot.parent = this.gestureNode
+		this.anchorNode.setEnabled(false)
+
+		this.reticle = this.createReticle()
+
+		if (this.hitTest) {
+			this.hitTestObserver = this.hitTest.onHitTestResultObservable.add((results) =>
+				this.handleHitTestResults(results)
+			)
+		}
+		this.controllerAddedObserver = this.xr.input.onControllerAddedObservable.add((controller) =>
+			this.handleTouchStart(controller)
+		)
+		this.controllerRemovedObserver = this.xr.input.onControllerRemovedObservable.add(
+			(controller) => this.handleTouchEnd(controller)
+		)
+		this.frameObserver = this.scene.onBeforeRenderObservable.add(() => this.updateGesture())
+		// Taps are XR select events, so DOM overlay controls can suppress them (beforexrselect)
+		this.session = this.xr.baseExperience.sessionManager.session
+		this.session?.addEventListener('select', this.selectListener)
+
+		this.notifyChange()
+	}
+
+	/**
+	 * Ends the placement flow and restores the model, called when leaving XR
+	 */
+	public stop(): void {
+		this.removeAnchor()
+
+		if (this.hitTestObserver) {
+			this.hitTest?.onHitTestResultObservable.remove(this.hitTestObserver)
+			this.hitTestObserver = null
+		}
+		this.xr.input.onControllerAddedObservable.remove(this.controllerAddedObserver)
+		this.xr.input.onControllerRemovedObservable.remove(this.controllerRemovedObserver)
+		this.scene.onBeforeRenderObservable.remove(this.frameObserver)
+		this.controllerAddedObserver = null
+		this.controllerRemovedObserver = null
+		this.frameObserver = null
+		this.session?.removeEventListener('select', this.selectListener)
+		this.session = null
+
+		if (this.modelRoot && this.saved) {
+			this.modelRoot.parent = this.saved.parent
+			this.modelRoot.position.copyFrom(this.saved.position)
+			this.modelRoot.scaling.copyFrom(this.saved.scaling)
+		}
+		this.modelRoot = null
+		this.saved = null
+
+		this.reticle?.material?.dispose()
+		this.reticle?.dispose()
+		this.gestureNode?.dispose()
+		this.anchorNode?.dispose()
+		this.reticle = null
+		this.gestureNode = null
+		this.anchorNode = null
+
+		this.placed = false
+		this.lastHit = null
+		this.touches.clear()
+		this.gesture = null
+	}
+
+	/**
+	 * Picks up the model to place it again, with the scale of the preset
+	 */
+	public reset(): void {
+		if (!this.anchorNode || !this.gestureNode) return
+
+		this.removeAnchor()
+		this.placed = false
+		this.userScale = 1
+		this.gestureNode.position.setAll(0)
+		this.gestureNode.rotation.setAll(0)
+		this.gestureNode.scaling.setAll(1)
+		this.anchorNode.setEnabled(false)
+		console.log('[AR Placement] Reset, waiting for placement')
+		this.notifyChange()
+	}
+
+	/**
+	 * Places the model at the current reticle position
+	 */
+	public async place(): Promise<void> {
+		const hit = this.lastHit
+		const anchorNode = this.anchorNode
+		if (!hit || !anchorNode || this.placed) return
+
+		// Face the user: only the yaw towards the camera, so the model stands upright
+		const camera = this.xr.baseExperience.camera.globalPosition
+		const yaw = Math.atan2(camera.x - hit.position.x, camera.z - hit.position.z)
+		const rotation = Quaternion.FromEulerAngles(0, yaw, 0)
+
+		this.placed = true
+		anchorNode.position.copyFrom(hit.position)
+		anchorNode.rotationQuaternion = rotation
+		anchorNode.setEnabled(true)
+		this.reticle?.setEnabled(false)
+		this.notifyChange()
+
+		if (this.anchorSystem) {
+			try {
+				const anchor = await this.anchorSystem.addAnchorAtPositionAndRotationAsync(
+					hit.position,
+					rotation
+				)
+				// Placement may have been reset or stopped in the meantime
+				if (!this.placed || this.anchorNode !== anchorNode) {
+					anchor.remove()
+					return
+				}
+				anchor.attachedNode = anchorNode
+				this.anchor = anchor
+			} catch (err) {
+				console.warn('[AR Placement] Failed to create anchor, placing without:', err)
+			}
+		}
+	}
+
+	private createReticle(): Mesh {
+		const reticle = CreateTorus(
+			'arPlacementReticle',
+			{ diameter: 0.2, thickness: 0.01, tessellation: 48 },
+			this.scene
+		)
+		const material = new StandardMaterial('arPlacementReticleMaterial', this.scene)
+		material.emissiveColor = Color3.White()
+		material.disableLighting = true
+		reticle.material = material
+		reticle.isPickable = false
+		reticle.rotationQuaternion = new Quaternion()
+		reticle.setEnabled(false)
+		return reticle
+	}
+
+	private handleHitTestResults(results: IWebXRHitResult[]): void {
+		const hadSurface = !!this.lastHit
+		this.lastHit = results[0] ?? null
+
+		if (this.reticle) {
+			if (this.lastHit && !this.placed) {
+				this.reticle.setEnabled(true)
+				this.lastHit.transformationMatrix.decompose(
+					undefined,
+					this.reticle.rotationQuaternion!,
+					this.reticle.position
+				)
+			} else {
+				this.reticle.setEnabled(false)
+			}
+		}
+
+		if (hadSurface !== !!this.lastHit) this.notifyChange()
+	}
+
+	private handleTouchStart(controller: WebXRInputSource): void {
+		// Only screen touches; controllers of headsets select with their own rays
+		if (controller.inputSource.targetRayMode !== 'screen') return
+
+		const position = getTouchPosition(controller)
+		this.touches.set(controller.uniqueId, {
+			controller,
+			start: position,
+			current: position,
+			startTime: performance.now(),
+			moved: false
+		})
+		if (this.touches.size === 1) {
+			this.gestureHadMultipleTouches = false
+			this.longPressHandled = false
+		} else {
+			this.gestureHadMultipleTouches = true
+		}
+		this.gesture = null
+	}
+
+	private handleTouchEnd(controller: WebXRInputSource): void {
+		if (this.touches.delete(controller.uniqueId)) {
+			this.gesture = null
+		}
+	}
+
+	private handleSelect(): void {
+		// A long press or a two-finger gesture ends with a select event, too
+		if (this.placed || this.longPressHandled || this.gestureHadMultipleTouches) return
+		this.place()
+	}
+
+	/**
+	 * Updates move, rotate and scale gestures once per frame
+	 */
+	private updateGesture(): void {
+		if (this.touches.size === 0) return
+
+		const touches = [...this.touches.values()]
+		for (const touch of touches) {
+			touch.current = getTouchPosition(touch.controller)
+			if (distance(touch.start, touch.current) > TOUCH_SLOP) touch.moved = true
+		}
+
+		if (touches.length === 1) {
+			const touch = touches[0]
+			if (
+				this.placed &&
+				!touch.moved &&
+				!this.longPressHandled &&
+				!this.gestureHadMultipleTouches &&
+				performance.now() - touch.startTime > LONG_PRESS_DURATION_MS
+			) {
+				this.longPressHandled = true
+				this.reset()
+				return
+			}
+			if (this.placed && touch.moved && !this.gestureHadMultipleTouches) {
+				this.updateDrag(touch.controller)
+			}
+			return
+		}
+
+		if (!this.placed || !this.gestureNode) return
+
+		const [a, b] = touches
+		const currentDistance = distance(a.current, b.current)
+		const currentAngle = Math.atan2(b.current.y - a.current.y, b.current.x - a.current.x)
+
+		if (!this.gesture) {
+			this.gesture = {
+				distance: currentDistance,
+				angle: currentAngle,
+				scale: this.userScale,
+				rotation: this.gestureNode.rotation.y,
+				dragOffset: null
+			}
+			return
+		}
+
+		if (this.gesture.distance > 0) {
+			this.userScale = Math.min(
+				MAX_USER_SCALE,
+				Math.max(
+					MIN_USER_SCALE,
+					this.gesture.scale * (currentDistance / this.gesture.distance)
+				)
+			)
+			this.gestureNode.scaling.setAll(this.userScale)
+		}
+		// Twisting turns the model around the vertical axis
+		this.gestureNode.rotation.y = this.gesture.rotation + (currentAngle - this.gesture.angle)
+		this.notifyChange()
+	}
+
+	/**
+	 * Moves the model along the surface it stands on, following the touch ray
+	 */
+	private updateDrag(controller: WebXRInputSource): void {
+		if (!this.anchorNode || !this.gestureNode) return
+
+		const ray = new Ray(Vector3.Zero(), Vector3.Forward())
+		controller.getWorldPointerRayToRef(ray)
+		const floor = Plane.FromPositionAndNormal(
+			this.anchorNode.getAbsolutePosition(),
+			Vector3.Up()
+		)
+		const distanceToFloor = ray.intersectsPlane(floor)
+		if (distanceToFloor === null) return
+
+		const worldPoint = ray.origin.add(ray.direction.scale(distanceToFloor))
+		const inverse = this.anchorNode.computeWorldMatrix(true).clone().invert()
+		const localPoint = Vector3.TransformCoordinates(worldPoint, inverse)
+
+		// Keep the offset between the touch point and the model from the start of the drag
+		if (!this.gesture) {
+			this.gesture = {
+				distance: 0,
+				angle: 0,
+				scale: this.userScale,
+				rotation: this.gestureNode.rotation.y,
+				dragOffset: this.gestureNode.position.subtract(localPoint)
+			}
+		}
+		const offset = this.gesture.dragOffset ?? Vector3.Zero()
+		this.gestureNode.position.set(localPoint.x + offset.x, 0, localPoint.z + offset.z)
+	}
+
+	private removeAnchor(): void {
+		if (this.anchor) {
+			this.anchor.attachedNode = undefined
+			this.anchor.remove()
+			this.anchor = null
+		}
+	}
+
+	private notifyChange(): void {
+		this.callbacks.onChange?.(this.state)
+	}
+
+	public dispose(): void {
+		this.stop()
+		const featuresManager = this.xr.baseExperience.featuresManager
+		if (this.hitTest) featuresManager.disableFeature(WebXRFeatureName.HIT_TEST)
+		if (this.anchorSystem) featuresManager.disableFeature(WebXRFeatureName.ANCHOR_SYSTEM)
+		this.hitTest = null
+		this.anchorSystem = null
+	}
+}
+
+/**
+ * Returns the normalized screen position (-1…1) of a screen touch. Browsers
+ * report it as the axes of the input source's gamepad.
+ */
+function getTouchPosition(controller: WebXRInputSource): { x: number; y: number } {
+	const axes = controller.inputSource.gamepad?.axes
+	return axes && axes.length >= 2 ? { x: axes[0], y: axes[1] } : { x: 0, y: 0 }
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+	return Math.hypot(a.x - b.x, a.y - b.y)
+}
@@ -0,0 +1,325 @@
+/**
+ * Capture Service
+ *
+ * Exports still images and turntable animations of the scene, rendered
+ * off-screen at any resolution the GPU supports (independent of the canvas):
+ * - Screenshots: PNG, with a transparent background (the scene's clear color
+ *   is transparent) or a solid color.
+ * - Turntables: a full orbit of the camera around its target, as a WebM video
+ *   or a ZIP of numbered PNG frames. WebM has no alpha channel, transparent
+ *   backgrounds are filled with white.
+ *
+ * Turntable frames are rendered first and then played back into a
+ * MediaRecorder at the requested frame rate, so encoding a WebM takes as long
+ * as the video itself. The camera is restored afterwards.
+ */
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera'
+import { CreateScreenshotUsingRenderTargetAsync } from '@babylonjs/core/Misc/screenshotTools'
+import { Color4 } from '@babylonjs/core/Maths/math.color'
+import { createZip, type ZipEntry } from '$lib/utils/zip'
+
+/** Hex color (#rrggbb) or 'transparent' */
+export type CaptureBackground = 'transparent' | string
+
+export type TurntableFormat = 'webm' | 'png'
+
+export interface CaptureSize {
+	width: number
+	height: number
+}
+
+export interface CapturePreset extends CaptureSize {
+	label: string
+}
+
+export interface ScreenshotOptions extends CaptureSize {
+	background?: CaptureBackground
+	/** Render annotation markers and labels (default: true) */
+	includeAnnotations?: boolean
+}
+
+export interface TurntableProgress {
+	phase: 'rendering' | 'encoding'
+	frame: number
+	frames: number
+}
+
+export interface TurntableOptions extends ScreenshotOptions {
+	format: TurntableFormat
+	/** Number of frames for one full orbit */
+	frames: number
+	/** Playback rate of the video */
+	fps: number
+	/** 1 orbits counterclockwise seen from above, -1 clockwise (default: 1) */
+	direction?: 1 | -1
+	onProgress?: (progress: TurntableProgress) => void
+	signal?: AbortSignal
+}
+
+export interface CaptureCallbacks {
+	/** Called before rendering, to hide helpers and (optionally) annotations */
+	onCaptureStart?: (options: ScreenshotOptions) => void
+	/** Called when the capture has finished, failed or was cancelled */
+	onCaptureEnd?: () => void
+}
+
+export const CAPTURE_PRESETS: CapturePreset[] = [
+	{ label: 'Full HD', width: 1920, height: 1080 },
+	{ label: '4K', width: 3840, height: 2160 },
+	{ label: 'Square', width: 4096, height: 4096 },
+	{ label: 'A4 300 dpi', width: 3508, height: 2480 }
+]
+
+export const TURNTABLE_FORMAT_LABELS: Record<TurntableFormat, string> = {
+	webm: 'WebM video',
+	png: 'PNG sequence (ZIP)'
+}
+
+/** Frames are kept in memory until encoded, so a turntable is capped at this many */
+export const MAX_TURNTABLE_FRAMES = 900
+
+// Multisampling of the off-screen render target
+const CAPTURE_SAMPLES = 4
+const VIDEO_BITS_PER_SECOND = 16_000_000
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export class CaptureError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'CaptureError'
+	}
+}
+
+export class CaptureService {
+	private scene: Scene
+	private camera: ArcRotateCamera
+	private callbacks: CaptureCallbacks
+	private capturing = false
+
+	constructor(scene: Scene, camera: ArcRotateCamera, callbacks: CaptureCallbacks = {}) {
+		this.scene = scene
+		this.camera = camera
+		this.callbacks = callbacks
+	}
+
+	/**
+	 * Whether this browser can record WebM video
+	 */
+	public static isWebMSupported(): boolean {
+		return getWebMMimeType() !== null
+	}
+
+	public get isCapturing(): boolean {
+		return this.capturing
+	}
+
+	/**
+	 * Largest width or height the GPU can render off-screen
+	 */
+	public getMaxSize(): number {
+		return this.scene.getEngine().getCaps().maxRenderTextureSize
+	}
+
+	/**
+	 * Scales a size down, keeping its aspect ratio, so it fits the GPU limit
+	 */
+	public clampSize(size: CaptureSize): CaptureSize {
+		const max = this.getMaxSize()
+		const scale = Math.min(1, max / Math.max(size.width, size.height))
+		return {
+			width: Math.max(1, Math.floor(size.width * scale)),
+			height: Math.max(1, Math.floor(size.height * scale))
+		}
+	}
+
+	/**
+	 * Renders the current view to a PNG
+	 */
+	public async captureScreenshot(options: ScreenshotOptions): Promise<Blob> {
+		return this.run(options, async () => dataUrlToBlob(await this.renderFrame(options)))
+	}
+
+	/**
+	 * Orbits the camera once around its target and returns the frames as a
+	 * WebM video or a ZIP of PNG images. The number of frames is capped at
+	 * MAX_TURNTABLE_FRAMES. Throws an AbortError when the signal is aborted.
+	 */
+	public async captureTurntable(options: TurntableOptions): Promise<Blob> {
+		const mimeType = options.format === 'webm' ? getWebMMimeType() : null
+		if (options.format === 'webm' && !mimeType) {
+			throw new CaptureError('This browser cannot record WebM video')
+		}
+		if (!(options.frames >= 1) || !(options.fps > 0)) {
+			throw new CaptureError('A turntable needs at least one frame and a positive frame rate')
+		}
+
+		const frameCount = Math.min(Math.round(options.frames), MAX_TURNTABLE_FRAMES)
+		return this.run(options, async () => {
+			const frames = await this.renderOrbit({ ...options, frames: frameCount })
+			return mimeType ? encodeWebM(frames, mimeType, options) : createFrameArchive(frames)
+		})
+	}
+
+	private async run<T>(options: ScreenshotOptions, capture: () => Promise<T>): Promise<T> {
+		if (this.capturing) {
+			throw new CaptureError('A capture is already running')
+		}
+
+		this.capturing = true
+		const clearColor = this.scene.clearColor.clone()
+		if (options.background && options.background !== 'transparent') {
+			this.scene.clearColor = Color4.FromHexString(`${options.background}ff`)
+		}
+		this.callbacks.onCaptureStart?.(options)
+
+		try {
+			return await capture()
+		} finally {
+			this.scene.clearColor = clearColor
+			this.capturing = false
+			this.callbacks.onCaptureEnd?.()
+		}
+	}
+
+	private async renderFrame(size: CaptureSize): Promise<string> {
+		const { width, height } = this.clampSize(size)
+		return CreateScreenshotUsingRenderTargetAsync(
+			this.scene.getEngine(),
+			this.camera,
+			{ width, height },
+			'image/png',
+			CAPTURE_SAMPLES,
+			true
+		)
+	}
+
+	private async renderOrbit(options: TurntableOptions): Promise<Blob[]> {
+		const camera = this.camera
+		const alpha = camera.alpha
+		const step = ((options.direction ?? 1) * 2 * Math.PI) / options.frames
+
+		// Keep user input and leftover inertia from moving the camera between frames
+		const wasAttached = camera.inputs.attachedToElement
+		camera.detachControl()
+		camera.inertialAlphaOffset = 0
+		camera.inertialBetaOffset = 0
+		camera.inertialRadiusOffset = 0
+
+		const frames: Blob[] = []
+		try {
+			for (let frame = 0; frame < options.frames; frame++) {
+				options.signal?.throwIfAborted()
+				options.onProgress?.({ phase: 'rendering', frame, frames: options.frames })
+
+				camera.alpha = alpha + frame * step
+				frames.push(dataUrlToBlob(await this.renderFrame(options)))
+			}
+		} finally {
+			camera.alpha = alpha
+			if (wasAttached) camera.attachControl(true)
+		}
+
+		return frames
+	}
+}
+
+function getWebMMimeType(): string | null {
+	if (typeof MediaRecorder === 'undefined') return null
+	return WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+	return new Blob([dataUrlToBytes(dataUrl)], { type: 'image/png' })
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+	const bytes = new Uint8Array(binary.length)
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i)
+	}
+	return bytes
+}
+
+async function createFrameArchive(frames: Blob[]): Promise<Blob> {
+	const digits = Math.max(4, String(frames.length).length)
+	const entries: ZipEntry[] = await Promise.all(
+		frames.map(async (frame, index) => ({
+			name: `frame_${String(index + 1).padStart(digits, '0')}.png`,
+			data: new Uint8Array(await frame.arrayBuffer())
+		}))
+	)
+	return new Blob([createZip(entries) as BlobPart], { type: 'application/zip' })
+}
+
+/**
+ * Plays the frames into a MediaRecorder, one frame per 1/fps seconds
+ */
+async function encodeWebM(
+	frames: Blob[],
+	mimeType: string,
+	options: TurntableOptions
+): Promise<Blob> {
+	const canvas = document.createElement('canvas')
+	const first = await createImageBitmap(frames[0])
+	canvas.width = first.width
+	canvas.height = first.height
+	first.close()
+
+	const context = canvas.getContext('2d')
+	if (!context) {
+		throw new CaptureError('Failed to create a canvas for video encoding')
+	}
+	const background =
+		options.background && options.background !== 'transparent' ? options.background : '#ffffff'
+
+	// With a frame rate of 0 the stream only emits frames on requestFrame()
+	const stream = canvas.captureStream(0)
+	const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+	const recorder = new MediaRecorder(stream, {
+		mimeType,
+		videoBitsPerSecond: VIDEO_BITS_PER_SECOND
+	})
+	const chunks: Blob[] = []
+	recorder.ondataavailable = (event) => {
+		if (event.data.size > 0) chunks.push(event.data)
+	}
+	const stopped = new Promise<void>((resolve) => {
+		recorder.onstop = () => resolve()
+	})
+
+	const frameDuration = 1000 / options.fps
+	recorder.start()
+	try {
+		let next = createImageBitmap(frames[0])
+		const start = performance.now()
+		for (let frame = 0; frame < frames.length; frame++) {
+			options.signal?.throwIfAborted()
+			options.onProgress?.({ phase: 'encoding', frame, frames: frames.length })
+
+			const image = await next
+			// Decode the next frame while this one is shown
+			if (frame + 1 < frames.length) next = createImageBitmap(frames[frame + 1])
+
+			context.fillStyle = background
+			context.fillRect(0, 0, canvas.width, canvas.height)
+			context.drawImage(image, 0, 0)
+			image.close()
+			track.requestFrame()
+
+			await wait(start + (frame + 1) * frameDuration - performance.now())
+		}
+	} finally {
+		recorder.stop()
+		track.stop()
+		await stopped
+	}
+
+	return new Blob(chunks, { type: mimeType.split(';')[0] })
+}
+
+function wait(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)))
+}
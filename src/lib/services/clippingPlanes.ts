@@ -0,0 +1,700 @@
+/**
+ * Clipping Planes Service
+ *
+ * Cross-sections of the model: up to three clipping planes (axis-aligned or
+ * freely oriented) or a section box made of six axis-aligned planes. Planes
+ * are set on the model materials only, so annotations, measurements and
+ * gizmos are not clipped.
+ *
+ * - Gizmos move the selected plane along its normal and rotate free planes;
+ *   in section box mode every face has a handle.
+ * - Caps: while clipping, back faces of the model are drawn in a flat color,
+ *   so the cut looks solid where the mesh is closed.
+ *
+ * The state is exchanged as a ClippingState (see utils/clipping), normalized
+ * to the model bounds, for the shareable URL.
+ */
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { Nullable } from '@babylonjs/core/types'
+import type { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import type { Material } from '@babylonjs/core/Materials/material'
+import type { MaterialDefines } from '@babylonjs/core/Materials/materialDefines'
+import type { UniformBuffer } from '@babylonjs/core/Materials/uniformBuffer'
+import { MaterialPluginBase } from '@babylonjs/core/Materials/materialPluginBase'
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
+import { Quaternion, Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { Plane } from '@babylonjs/core/Maths/math.plane'
+import { Color3 } from '@babylonjs/core/Maths/math.color'
+import { Mesh } from '@babylonjs/core/Meshes/mesh'
+import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder'
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
+import { AxisDragGizmo } from '@babylonjs/core/Gizmos/axisDragGizmo'
+import { RotationGizmo } from '@babylonjs/core/Gizmos/rotationGizmo'
+import {
+	CLIP_AXES,
+	MAX_CLIP_PLANES,
+	getPlaneAxis,
+	type ClipAxis,
+	type ClippingState,
+	type Vector3Tuple
+} from '../utils/clipping'
+
+const CLIP_PLANE_PROPERTIES = [
+	'clipPlane',
+	'clipPlane2',
+	'clipPlane3',
+	'clipPlane4',
+	'clipPlane5',
+	'clipPlane6'
+] as const
+
+const DEFAULT_CAP_COLOR = Color3.FromHexString('#475569')
+const HELPER_COLOR = Color3.FromHexString('#0284c7')
+
+export interface ClipPlaneInfo {
+	/** Axis of an axis-aligned plane, null for free planes */
+	axis: ClipAxis | null
+	/** Direction of the normal of axis-aligned planes */
+	sign: 1 | -1
+	/** Position along the normal within the model bounds (0…1) */
+	offset: number
+}
+
+export interface ClippingPlanesCallbacks {
+	/** Called when planes are added, removed or moved */
+	onChange?: (state: ClippingState | null, planes: ClipPlaneInfo[]) => void
+}
+
+interface ClipPlaneHandle {
+	/** Its forward direction (local +Z) is the plane normal */
+	node: TransformNode
+	/** Fixed normal of axis-aligned planes */
+	axisNormal: Vector3 | null
+	plane: Plane
+	helper: Mesh | null
+	observer: Observer<TransformNode>
+}
+
+interface Bounds {
+	min: Vector3
+	max: Vector3
+}
+
+/**
+ * Draws back faces in a flat color while enabled
+ */
+class SectionCapPlugin extends MaterialPluginBase {
+	public color = DEFAULT_CAP_COLOR.clone()
+	private active = false
+
+	constructor(material: Material) {
+		super(material, 'SectionCap', 200, { SECTION_CAP: false })
+		this._enable(true)
+	}
+
+	public get isActive(): boolean {
+		return this.active
+	}
+
+	public set isActive(value: boolean) {
+		if (this.active === value) return
+		this.active = value
+		this.markAllDefinesAsDirty()
+	}
+
+	public prepareDefines(defines: MaterialDefines): void {
+		defines.SECTION_CAP = this.active
+	}
+
+	public getUniforms() {
+		return {
+			ubo: [{ name: 'sectionCapColor', size: 3, type: 'vec3' }],
+			fragment: '#ifdef SECTION_CAP\nuniform vec3 sectionCapColor;\n#endif\n'
+		}
+	}
+
+	public bindForSubMesh(uniformBuffer: UniformBuffer): void {
+		if (this.active) {
+			uniformBuffer.updateColor3('sectionCapColor', this.color)
+		}
+	}
+
+	public getClassName(): string {
+		return 'SectionCapPlugin'
+	}
+
+	public getCustomCode(shaderType: string) {
+		if (shaderType !== 'fragment') return null
+		return {
+			CUSTOM_FRAGMENT_MAIN_END: `
+#ifdef SECTION_CAP
+if (!gl_FrontFacing) {
+	gl_FragColor = vec4(sectionCapColor, 1.0);
+}
+#endif
+`
+		}
+	}
+}
+
+export class ClippingPlanes {
+	private scene: Scene
+	private callbacks: ClippingPlanesCallbacks
+
+	private materials: Material[] = []
+	private caps = new Map<Material, SectionCapPlugin>()
+	private backFaceCulling = new Map<Material, boolean>()
+	private bounds: Bounds | null = null
+
+	private mode: ClippingState['mode'] = 'planes'
+	private handles: ClipPlaneHandle[] = []
+	private selected = -1
+	private enabled = true
+	private helpersVisible = false
+
+	private helperMaterial: StandardMaterial
+	private boxHelper: Mesh | null = null
+	private axisGizmos: AxisDragGizmo[] = []
+	private rotationGizmo: RotationGizmo | null = null
+	private updating = false
+
+	constructor(scene: Scene, callbacks: ClippingPlanesCallbacks = {}) {
+		this.scene = scene
+		this.callbacks = callbacks
+
+		this.helperMaterial = new StandardMaterial('clipHelperMaterial', scene)
+		this.helperMaterial.emissiveColor = HELPER_COLOR
+		this.helperMaterial.disableLighting = true
+		this.helperMaterial.alpha = 0.12
+		this.helperMaterial.backFaceCulling = false
+	}
+
+	public get selectedIndex(): number {
+		return this.selected
+	}
+
+	/**
+	 * Sets the model to clip, removing all planes
+	 *
+	 * @param meshes - Meshes of the model, whose materials get the clip planes
+	 * @param bounds - World bounding box of the model, planes are positioned relative to it
+	 */
+	public setModel(meshes: AbstractMesh[], bounds: Bounds | null): void {
+		this.clear()
+		this.bounds = bounds && { min: bounds.min.clone(), max: bounds.max.clone() }
+		this.updateMaterials(meshes)
+	}
+
+	/**
+	 * Moves the planes to the current materials of the model, after they were
+	 * replaced (e.g. by a display mode)
+	 */
+	public updateMaterials(meshes: AbstractMesh[]): void {
+		this.restoreMaterials()
+
+		const materials = new Set<Material>()
+		for (const mesh of meshes) {
+			const material = mesh.material
+			if (!material) continue
+			// Multi-materials hold the materials of their sub-meshes
+			const subMaterials = (material as { subMaterials?: Nullable<Material>[] }).subMaterials
+			for (const sub of subMaterials ?? [material]) {
+				if (sub) materials.add(sub)
+			}
+		}
+		this.materials = Array.from(materials)
+		this.applyPlanes()
+	}
+
+	/**
+	 * Restores a clipping state, e.g. from the URL
+	 */
+	public setState(state: ClippingState | null): void {
+		this.removeHandles()
+		if (!state || !this.bounds) {
+			this.mode = 'planes'
+			this.update()
+			return
+		}
+
+		this.mode = state.mode
+		if (state.mode === 'box') {
+			this.createBoxHandles(state.box.min, state.box.max)
+		} else {
+			for (const plane of state.planes.slice(0, MAX_CLIP_PLANES)) {
+				const axis = getPlaneAxis(plane.normal)
+				this.handles.push(
+					this.createHandle(
+						Vector3.FromArray(plane.normal),
+						this.fromNormalized(plane.point),
+						axis !== null
+					)
+				)
+			}
+			this.selected = this.handles.length - 1
+		}
+		this.update()
+	}
+
+	public getState(): ClippingState | null {
+		if (!this.bounds) return null
+
+		if (this.mode === 'box') {
+			if (this.handles.length !== 6) return null
+			const { min, max } = this.getBox()
+			return {
+				mode: 'box',
+				box: { min: this.toNormalized(min), max: this.toNormalized(max) }
+			}
+		}
+
+		if (this.handles.length === 0) return null
+		return {
+			mode: 'planes',
+			planes: this.handles.map((handle) => ({
+				normal: this.getNormal(handle).asArray() as Vector3Tuple,
+				point: this.toNormalized(handle.node.position)
+			}))
+		}
+	}
+
+	/**
+	 * Adds a clipping plane through the center of the model
+	 *
+	 * @param orientation - Axis of the plane normal, or a direction (e.g. the view
+	 *   direction) for a freely oriented plane
+	 */
+	public addPlane(orientation: ClipAxis | Vector3): void {
+		if (!this.bounds) return
+		if (this.mode !== 'planes') this.setState(null)
+		if (this.handles.length >= MAX_CLIP_PLANES) return
+
+		const center = this.bounds.min.add(this.bounds.max).scaleInPlace(0.5)
+		const handle =
+			typeof orientation === 'string'
+				? this.createHandle(this.getAxisVector(orientation), center, true)
+				: this.createHandle(orientation.normalizeToNew(), center, false)
+		this.handles.push(handle)
+		this.selected = this.handles.length - 1
+		this.update()
+	}
+
+	public removePlane(index: number): void {
+		const handle = this.handles[index]
+		if (!handle || this.mode !== 'planes') return
+
+		this.disposeHandle(handle)
+		this.handles.splice(index, 1)
+		this.selected = Math.min(this.selected, this.handles.length - 1)
+		this.update()
+	}
+
+	/**
+	 * Cuts away the other side of a plane
+	 */
+	public flipPlane(index: number): void {
+		const handle = this.handles[index]
+		if (!handle || this.mode !== 'planes') return
+
+		handle.axisNormal?.negateInPlace()
+		this.orientNode(handle.node, this.getNormal(handle).negate())
+		this.update()
+	}
+
+	/**
+	 * Moves a plane along its normal
+	 *
+	 * @param offset - Position within the model bounds along the normal (0…1)
+	 */
+	public setPlaneOffset(index: number, offset: number): void {
+		const handle = this.handles[index]
+		if (!handle || this.mode !== 'planes') return
+
+		const normal = this.getNormal(handle)
+		const [start, end] = this.getExtentAlong(normal)
+		const current = Vector3.Dot(normal, handle.node.position)
+		handle.node.position.addInPlace(normal.scale(start + offset * (end - start) - current))
+		this.update()
+	}
+
+	/**
+	 * Selects the plane the gizmos are attached to
+	 */
+	public selectPlane(index: number): void {
+		this.selected = index
+		this.updateGizmos()
+	}
+
+	/**
+	 * Switches to the section box, initially around the whole model
+	 */
+	public showSectionBox(): void {
+		if (!this.bounds) return
+		this.removeHandles()
+		this.mode = 'box'
+		this.createBoxHandles([0, 0, 0], [1, 1, 1])
+		this.update()
+	}
+
+	/**
+	 * Sets the extent of the section box along an axis
+	 *
+	 * @param min - Lower face, normalized to the model bounds
+	 * @param max - Upper face, normalized to the model bounds
+	 */
+	public setBoxRange(axis: ClipAxis, min: number, max: number): void {
+		if (this.mode !== 'box' || this.handles.length !== 6) return
+
+		const index = CLIP_AXES.indexOf(axis)
+		const minPosition = this.fromNormalized([min, min, min])
+		const maxPosition = this.fromNormalized([max, max, max])
+		const lower = this.handles[index * 2]
+		const upper = this.handles[index * 2 + 1]
+		lower.node.position.set(
+			...this.withComponent(lower.node.position, index, minPosition.asArray()[index])
+		)
+		upper.node.position.set(
+			...this.withComponent(upper.node.position, index, maxPosition.asArray()[index])
+		)
+		this.update()
+	}
+
+	/**
+	 * Shows the plane helpers and gizmos, while the clipping tools are open
+	 */
+	public setHelpersVisible(visible: boolean): void {
+		this.helpersVisible = visible
+		this.updateHelpers()
+	}
+
+	/**
+	 * Suspends clipping without losing the planes, e.g. while the model is
+	 * moved in XR
+	 */
+	public setEnabled(enabled: boolean): void {
+		this.enabled = enabled
+		this.applyPlanes()
+		this.updateHelpers()
+	}
+
+	public clear(): void {
+		this.removeHandles()
+		this.mode = 'planes'
+		this.update()
+	}
+
+	public dispose(): void {
+		this.clear()
+		this.restoreMaterials()
+		this.disposeGizmos()
+		this.helperMaterial.dispose()
+	}
+
+	private createHandle(
+		normal: Vector3,
+		position: Vector3,
+		axisAligned: boolean
+	): ClipPlaneHandle {
+		const node = new TransformNode('clipPlane', this.scene)
+		node.position.copyFrom(position)
+		this.orientNode(node, normal)
+
+		const handle: ClipPlaneHandle = {
+			node,
+			axisNormal: axisAligned ? normal.clone() : null,
+			plane: new Plane(0, 0, 1, 0),
+			helper: null,
+			observer: node.onAfterWorldMatrixUpdateObservable.add(() => {
+				if (!this.updating) this.update()
+			})
+		}
+
+		if (this.mode === 'planes' && this.bounds) {
+			// A square through the model shows where the plane cuts
+			const size = Vector3.Distance(this.bounds.min, this.bounds.max) * 1.2
+			const helper = MeshBuilder.CreatePlane(
+				'clipPlaneHelper',
+				{ size, sideOrientation: Mesh.DOUBLESIDE },
+				this.scene
+			)
+			helper.material = this.helperMaterial
+			helper.isPickable = false
+			helper.parent = node
+			handle.helper = helper
+		}
+		return handle
+	}
+
+	/**
+	 * Creates the six faces of the section box, with outward normals
+	 * (ordered -x, +x, -y, +y, -z, +z)
+	 */
+	private createBoxHandles(min: Vector3Tuple, max: Vector3Tuple): void {
+		const minPosition = this.fromNormalized(min)
+		const maxPosition = this.fromNormalized(max)
+		const center = minPosition.add(maxPosition).scaleInPlace(0.5)
+
+		CLIP_AXES.forEach((axis, index) => {
+			for (const sign of [-1, 1]) {
+				const normal = this.getAxisVector(axis).scaleInPlace(sign)
+				const face = sign < 0 ? minPosition : maxPosition
+				const position = center.clone()
+				position.set(...this.withComponent(position, index, face.asArray()[index]))
+				this.handles.push(this.createHandle(normal, position, true))
+			}
+		})
+
+		this.boxHelper = MeshBuilder.CreateBox('sectionBoxHelper', { size: 1 }, this.scene)
+		const material = new StandardMaterial('sectionBoxHelperMaterial', this.scene)
+		material.emissiveColor = HELPER_COLOR
+		material.disableLighting = true
+		material.wireframe = true
+		this.boxHelper.material = material
+		this.boxHelper.isPickable = false
+	}
+
+	private removeHandles(): void {
+		for (const handle of this.handles) {
+			this.disposeHandle(handle)
+		}
+		this.handles = []
+		this.selected = -1
+		this.boxHelper?.material?.dispose()
+		this.boxHelper?.dispose()
+		this.boxHelper = null
+	}
+
+	private disposeHandle(handle: ClipPlaneHandle): void {
+		handle.node.onAfterWorldMatrixUpdateObservable.remove(handle.observer)
+		handle.helper?.dispose()
+		handle.node.dispose()
+	}
+
+	/**
+	 * Updates the planes from their nodes, applies them and reports the state
+	 */
+	private update(): void {
+		this.updating = true
+
+		if (this.mode === 'box' && this.handles.length === 6) {
+			this.constrainBox()
+		}
+
+		for (const handle of this.handles) {
+			handle.node.computeWorldMatrix(true)
+			const normal = this.getNormal(handle)
+			const plane = Plane.FromPositionAndNormal(handle.node.position, normal)
+			handle.plane.normal.copyFrom(plane.normal)
+			handle.plane.d = plane.d
+		}
+
+		this.updating = false
+
+		this.applyPlanes()
+		this.updateHelpers()
+		this.callbacks.onChange?.(this.getState(), this.getPlaneInfos())
+	}
+
+	/**
+	 * Keeps the faces of the section box in order and centered on the box
+	 */
+	private constrainBox(): void {
+		const { min, max } = this.getBox()
+		const center = min.add(max).scaleInPlace(0.5)
+
+		CLIP_AXES.forEach((_, index) => {
+			const lower = this.handles[index * 2].node.position
+			const upper = this.handles[index * 2 + 1].node.position
+			const lowerValue = lower.asArray()[index]
+			const upperValue = Math.max(upper.asArray()[index], lowerValue + 1e-4)
+			lower.copyFrom(center)
+			lower.set(...this.withComponent(lower, index, lowerValue))
+			upper.copyFrom(center)
+			upper.set(...this.withComponent(upper, index, upperValue))
+		})
+
+		if (this.boxHelper) {
+			const box = this.getBox()
+			this.boxHelper.position.copyFrom(box.min.add(box.max).scaleInPlace(0.5))
+			this.boxHelper.scaling.copyFrom(box.max.subtract(box.min))
+		}
+	}
+
+	private getBox(): Bounds {
+		const position = (index: number) => this.handles[index].node.position
+		return {
+			min: new Vector3(position(0).x, position(2).y, position(4).z),
+			max: new Vector3(position(1).x, position(3).y, position(5).z)
+		}
+	}
+
+	private applyPlanes(): void {
+		const planes = this.enabled ? this.handles.map((handle) => handle.plane) : []
+		const capsActive = planes.length > 0
+
+		for (const material of this.materials) {
+			CLIP_PLANE_PROPERTIES.forEach((property, index) => {
+				material[property] = planes[index] ?? null
+			})
+
+			if (capsActive && !this.caps.has(material)) {
+				this.caps.set(material, new SectionCapPlugin(material))
+			}
+			const cap = this.caps.get(material)
+			if (cap) cap.isActive = capsActive
+
+			// The caps are the back faces seen through the cut
+			if (capsActive && !this.backFaceCulling.has(material)) {
+				this.backFaceCulling.set(material, material.backFaceCulling)
+				material.backFaceCulling = false
+			} else if (!capsActive && this.backFaceCulling.has(material)) {
+				material.backFaceCulling = this.backFaceCulling.get(material)!
+				this.backFaceCulling.delete(material)
+			}
+		}
+	}
+
+	private restoreMaterials(): void {
+		for (const material of this.materials) {
+			CLIP_PLANE_PROPERTIES.forEach((property) => {
+				material[property] = null
+			})
+			const cap = this.caps.get(material)
+			if (cap) cap.isActive = false
+			if (this.backFaceCulling.has(material)) {
+				material.backFaceCulling = this.backFaceCulling.get(material)!
+			}
+		}
+		this.backFaceCulling.clear()
+		this.materials = []
+	}
+
+	private updateHelpers(): void {
+		const visible = this.helpersVisible && this.enabled
+		for (const handle of this.handles) {
+			handle.helper?.setEnabled(visible)
+		}
+		this.boxHelper?.setEnabled(visible)
+		this.updateGizmos()
+	}
+
+	/**
+	 * Attaches gizmos to the selected plane, or to all faces of the section box
+	 */
+	private updateGizmos(): void {
+		const visible = this.helpersVisible && this.enabled
+		const targets =
+			!visible || this.handles.length === 0
+				? []
+				: this.mode === 'box'
+					? this.handles
+					: this.handles[this.selected]
+						? [this.handles[this.selected]]
+						: []
+
+		while (this.axisGizmos.length < targets.length) {
+			const gizmo = new AxisDragGizmo(new Vector3(0, 0, 1), HELPER_COLOR)
+			gizmo.updateGizmoRotationToMatchAttachedMesh = true
+			this.axisGizmos.push(gizmo)
+		}
+		this.axisGizmos.forEach((gizmo, index) => {
+			gizmo.attachedNode = targets[index]?.node ?? null
+		})
+
+		// Free planes can also be tilted
+		const free =
+			this.mode === 'planes' && targets[0] && !targets[0].axisNormal ? targets[0] : null
+		if (free && !this.rotationGizmo) {
+			this.rotationGizmo = new RotationGizmo()
+			this.rotationGizmo.updateGizmoRotationToMatchAttachedMesh = true
+		}
+		if (this.rotationGizmo) {
+			this.rotationGizmo.attachedNode = free?.node ?? null
+		}
+	}
+
+	private disposeGizmos(): void {
+		this.axisGizmos.forEach((gizmo) => gizmo.dispose())
+		this.axisGizmos = []
+		this.rotationGizmo?.dispose()
+		this.rotationGizmo = null
+	}
+
+	private getPlaneInfos(): ClipPlaneInfo[] {
+		if (this.mode !== 'planes') return []
+
+		return this.handles.map((handle) => {
+			const normal = this.getNormal(handle)
+			const axis = handle.axisNormal ? getPlaneAxis(normal.asArray() as Vector3Tuple) : null
+			const [start, end] = this.getExtentAlong(normal)
+			const offset =
+				end > start
+					? (Vector3.Dot(normal, handle.node.position) - start) / (end - start)
+					: 0.5
+			return { axis: axis?.axis ?? null, sign: axis?.sign ?? 1, offset }
+		})
+	}
+
+	private getNormal(handle: ClipPlaneHandle): Vector3 {
+		return handle.axisNormal ? handle.axisNormal.clone() : handle.node.forward.normalize()
+	}
+
+	private orientNode(node: TransformNode, normal: Vector3): void {
+		const up = Math.abs(normal.y) > 0.99 ? Vector3.Forward() : Vector3.Up()
+		const right = Vector3.Cross(up, normal).normalize()
+		node.rotationQuaternion = Quaternion.RotationQuaternionFromAxis(
+			right,
+			Vector3.Cross(normal, right),
+			normal
+		)
+	}
+
+	/**
+	 * Range of the model bounds along a direction, as distances from the origin
+	 */
+	private getExtentAlong(normal: Vector3): [number, number] {
+		if (!this.bounds) return [0, 1]
+
+		const { min, max } = this.bounds
+		let start = Infinity
+		let end = -Infinity
+		for (const x of [min.x, max.x]) {
+			for (const y of [min.y, max.y]) {
+				for (const z of [min.z, max.z]) {
+					const distance = normal.x * x + normal.y * y + normal.z * z
+					start = Math.min(start, distance)
+					end = Math.max(end, distance)
+				}
+			}
+		}
+		return [start, end]
+	}
+
+	private getAxisVector(axis: ClipAxis): Vector3 {
+		return axis === 'x' ? Vector3.Right() : axis === 'y' ? Vector3.Up() : Vector3.Forward()
+	}
+
+	private toNormalized(position: Vector3): Vector3Tuple {
+		const { min, max } = this.bounds!
+		const size = max.subtract(min)
+		return [
+			size.x > 0 ? (position.x - min.x) / size.x : 0.5,
+			size.y > 0 ? (position.y - min.y) / size.y : 0.5,
+			size.z > 0 ? (position.z - min.z) / size.z : 0.5
+		]
+	}
+
+	private fromNormalized([x, y, z]: Vector3Tuple): Vector3 {
+		const { min, max } = this.bounds!
+		const size = max.subtract(min)
+		return new Vector3(min.x + x * size.x, min.y + y * size.y, min.z + z * size.z)
+	}
+
+	private withComponent(vector: Vector3, index: number, value: number): Vector3Tuple {
+		const components = vector.asArray() as Vector3Tuple
+		components[index] = value
+		return components
+	}
+}
@@ -0,0 +1,401 @@
+/**
+ * Display Modes Service
+ *
+ * Ways of showing the model for close inspection, independent of its own
+ * materials:
+ * - Display modes: textured (the model's materials), clay, wireframe, vertex
+ *   normals and a UV checker. All but "textured" temporarily replace the
+ *   materials of the model with shared override materials.
+ * - Lighting presets for the environment and the default light, with exposure.
+ * - Raking light: a directional light at a low, adjustable angle that brings
+ *   out inscriptions and tool marks. The ambient light is dimmed while it is on.
+ *   Shift-drag on the canvas moves it around the model.
+ */
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import { PointerEventTypes, type PointerInfo } from '@babylonjs/core/Events/pointerEvents'
+import type { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import type { Material } from '@babylonjs/core/Materials/material'
+import type { MaterialDefines } from '@babylonjs/core/Materials/materialDefines'
+import type { Nullable } from '@babylonjs/core/types'
+import { MaterialPluginBase } from '@babylonjs/core/Materials/materialPluginBase'
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
+import { PBRMaterial } from '@babylonjs/core/Materials/PBR/pbrMaterial'
+import { DynamicTexture } from '@babylonjs/core/Materials/Textures/dynamicTexture'
+import { DirectionalLight } from '@babylonjs/core/Lights/directionalLight'
+import type { Light } from '@babylonjs/core/Lights/light'
+import { Color3 } from '@babylonjs/core/Maths/math.color'
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+
+export type DisplayMode = 'textured' | 'clay' | 'wireframe' | 'normals' | 'uvChecker'
+
+export type LightingPreset = 'studio' | 'soft' | 'flat' | 'dark'
+
+export interface RakingLightSettings {
+	enabled: boolean
+	/** Direction the light comes from around the vertical axis, in degrees */
+	azimuth: number
+	/** Height of the light above the horizon, in degrees */
+	elevation: number
+	intensity: number
+}
+
+export interface DisplaySettings {
+	mode: DisplayMode
+	lighting: LightingPreset
+	/** Image exposure, 1 is neutral */
+	exposure: number
+	raking: RakingLightSettings
+}
+
+export interface DisplayModesCallbacks {
+	/** Called when any display setting changes */
+	onChange?: (settings: DisplaySettings) => void
+}
+
+export const DISPLAY_MODE_LABELS: Record<DisplayMode, string> = {
+	textured: 'Textured',
+	clay: 'Clay',
+	wireframe: 'Wireframe',
+	normals: 'Normals',
+	uvChecker: 'UV checker'
+}
+
+export const LIGHTING_PRESET_LABELS: Record<LightingPreset, string> = {
+	studio: 'Studio',
+	soft: 'Soft',
+	flat: 'Flat',
+	dark: 'Dark'
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+	mode: 'textured',
+	lighting: 'studio',
+	exposure: 1,
+	raking: { enabled: false, azimuth: 45, elevation: 10, intensity: 3 }
+}
+
+/** Intensities of the environment (image-based) light and the default lights */
+const LIGHTING_PRESETS: Record<LightingPreset, { environment: number; lights: number }> = {
+	studio: { environment: 1, lights: 1 },
+	soft: { environment: 1.3, lights: 0 },
+	flat: { environment: 0, lights: 1.6 },
+	dark: { environment: 0.15, lights: 0.1 }
+}
+
+/** Ambient light left while the raking light is on */
+const RAKING_AMBIENT_FACTOR = 0.15
+/** Raking light movement per dragged pixel, in degrees */
+const RAKING_DRAG_SPEED = 0.4
+const RAKING_MIN_ELEVATION = 1
+const RAKING_MAX_ELEVATION = 60
+
+const CLAY_COLOR = Color3.FromHexString('#d6d0c4')
+const WIREFRAME_COLOR = Color3.FromHexString('#334155')
+const CHECKER_SIZE = 512
+const CHECKER_CELLS = 8
+
+/**
+ * Colors fragments by their world space normal
+ */
+class NormalColorPlugin extends MaterialPluginBase {
+	constructor(material: Material) {
+		// Before the section caps, which color the back faces
+		super(material, 'NormalColor', 100, { NORMAL_COLOR: false })
+		this._enable(true)
+	}
+
+	public prepareDefines(defines: MaterialDefines): void {
+		defines.NORMAL_COLOR = true
+	}
+
+	public getClassName(): string {
+		return 'NormalColorPlugin'
+	}
+
+	public getCustomCode(shaderType: string) {
+		if (shaderType !== 'fragment') return null
+		return {
+			CUSTOM_FRAGMENT_MAIN_END: `
+#ifdef NORMAL_COLOR
+gl_FragColor = vec4(normalW * 0.5 + 0.5, 1.0);
+#endif
+`
+		}
+	}
+}
+
+export class DisplayModes {
+	private scene: Scene
+	private camera: ArcRotateCamera
+	private callbacks: DisplayModesCallbacks
+	private settings: DisplaySettings = structuredClone(DEFAULT_DISPLAY_SETTINGS)
+
+	private meshes: AbstractMesh[] = []
+	private originalMaterials = new Map<AbstractMesh, Nullable<Material>>()
+	private overrides = new Map<Exclude<DisplayMode, 'textured'>, Material>()
+
+	/** Lights of the scene that the presets dim, with their own intensity */
+	private baseLights = new Map<Light, number>()
+	private rakingLight: DirectionalLight
+	private pointerObserver: Observer<PointerInfo>
+	private dragPosition: { x: number; y: number } | null = null
+
+	constructor(scene: Scene, camera: ArcRotateCamera, callbacks: DisplayModesCallbacks = {}) {
+		this.scene = scene
+		this.camera = camera
+		this.callbacks = callbacks
+
+		for (const light of scene.lights) {
+			this.baseLights.set(light, light.intensity)
+		}
+
+		this.rakingLight = new DirectionalLight('rakingLight', Vector3.Down(), scene)
+		this.rakingLight.setEnabled(false)
+
+		this.pointerObserver = scene.onPointerObservable.add((pointerInfo) =>
+			this.handlePointer(pointerInfo)
+		)
+
+		this.applyLighting()
+	}
+
+	public getSettings(): DisplaySettings {
+		return structuredClone(this.settings)
+	}
+
+	/**
+	 * Sets the model whose materials are replaced, showing it in the current mode
+	 */
+	public setModel(meshes: AbstractMesh[]): void {
+		this.restoreMaterials()
+		this.meshes = meshes.filter((mesh) => !!mesh.material)
+		for (const mesh of this.meshes) {
+			this.originalMaterials.set(mesh, mesh.material)
+		}
+		this.applyMode()
+	}
+
+	public setMode(mode: DisplayMode): void {
+		if (this.settings.mode === mode) return
+		this.settings.mode = mode
+		this.applyMode()
+		this.notify()
+	}
+
+	public setLighting(preset: LightingPreset): void {
+		this.settings.lighting = preset
+		this.applyLighting()
+		this.notify()
+	}
+
+	public setExposure(exposure: number): void {
+		this.settings.exposure = exposure
+		this.applyLighting()
+		this.notify()
+	}
+
+	/**
+	 * Turns the raking light on or off, or moves it
+	 */
+	public setRakingLight(raking: Partial<RakingLightSettings>): void {
+		this.settings.raking = { ...this.settings.raking, ...raking }
+		this.applyLighting()
+		this.notify()
+	}
+
+	/**
+	 * Applies display settings at once, e.g. from a shared link
+	 */
+	public setSettings(settings: Partial<DisplaySettings>): void {
+		const modeChanged = settings.mode !== undefined && settings.mode !== this.settings.mode
+		this.settings = {
+			...this.settings,
+			...settings,
+			raking: { ...this.settings.raking, ...settings.raking }
+		}
+		if (modeChanged) this.applyMode()
+		this.applyLighting()
+		this.notify()
+	}
+
+	public reset(): void {
+		this.setSettings(structuredClone(DEFAULT_DISPLAY_SETTINGS))
+	}
+
+	public dispose(): void {
+		this.restoreMaterials()
+		for (const material of this.overrides.values()) {
+			material.dispose(true, true)
+		}
+		this.overrides.clear()
+		this.endDrag()
+		this.scene.onPointerObservable.remove(this.pointerObserver)
+		this.rakingLight.dispose()
+	}
+
+	private handlePointer(pointerInfo: PointerInfo): void {
+		const event = pointerInfo.event
+		switch (pointerInfo.type) {
+			case PointerEventTypes.POINTERDOWN:
+				if (this.settings.raking.enabled && event.shiftKey) {
+					this.dragPosition = { x: event.clientX, y: event.clientY }
+					// Keep the camera from orbiting while the light is moved
+					this.camera.detachControl()
+				}
+				break
+			case PointerEventTypes.POINTERMOVE:
+				if (this.dragPosition) {
+					const { azimuth, elevation } = this.settings.raking
+					const dx = event.clientX - this.dragPosition.x
+					const dy = event.clientY - this.dragPosition.y
+					this.dragPosition = { x: event.clientX, y: event.clientY }
+					this.setRakingLight({
+						azimuth: (azimuth + dx * RAKING_DRAG_SPEED + 360) % 360,
+						elevation: Math.min(
+							RAKING_MAX_ELEVATION,
+							Math.max(RAKING_MIN_ELEVATION, elevation - dy * RAKING_DRAG_SPEED)
+						)
+					})
+				}
+				break
+			case PointerEventTypes.POINTERUP:
+				this.endDrag()
+				break
+		}
+	}
+
+	private endDrag(): void {
+		if (this.dragPosition) {
+			this.camera.attachControl(true)
+		}
+		this.dragPosition = null
+	}
+
+	private applyMode(): void {
+		const { mode } = this.settings
+		const material = mode === 'textured' ? null : this.getOverride(mode)
+
+		for (const mesh of this.meshes) {
+			mesh.material = material ?? this.originalMaterials.get(mesh) ?? null
+		}
+	}
+
+	private restoreMaterials(): void {
+		for (const [mesh, material] of this.originalMaterials) {
+			if (!mesh.isDisposed()) mesh.material = material
+		}
+		this.originalMaterials.clear()
+		this.meshes = []
+	}
+
+	private applyLighting(): void {
+		const { lighting, exposure, raking } = this.settings
+		const preset = LIGHTING_PRESETS[lighting]
+		const ambient = raking.enabled ? RAKING_AMBIENT_FACTOR : 1
+
+		this.scene.environmentIntensity = preset.environment * ambient
+		for (const [light, intensity] of this.baseLights) {
+			light.intensity = intensity * preset.lights * ambient
+		}
+		this.scene.imageProcessingConfiguration.exposure = exposure
+
+		this.rakingLight.setEnabled(raking.enabled)
+		this.rakingLight.intensity = raking.intensity
+		// The light shines from the given direction towards the model
+		const azimuth = (raking.azimuth * Math.PI) / 180
+		const elevation = (raking.elevation * Math.PI) / 180
+		this.rakingLight.direction.set(
+			-Math.cos(elevation) * Math.sin(azimuth),
+			-Math.sin(elevation),
+			-Math.cos(elevation) * Math.cos(azimuth)
+		)
+	}
+
+	/**
+	 * Creates the shared material of a display mode on first use
+	 */
+	private getOverride(mode: Exclude<DisplayMode, 'textured'>): Material {
+		let material = this.overrides.get(mode)
+		if (material) return material
+
+		switch (mode) {
+			case 'clay': {
+				const clay = new PBRMaterial('displayClay', this.scene)
+				clay.albedoColor = CLAY_COLOR
+				clay.metallic = 0
+				clay.roughness = 0.75
+				material = clay
+				break
+			}
+			case 'wireframe': {
+				const wireframe = new StandardMaterial('displayWireframe', this.scene)
+				wireframe.emissiveColor = WIREFRAME_COLOR
+				wireframe.disableLighting = true
+				wireframe.wireframe = true
+				material = wireframe
+				break
+			}
+			case 'normals': {
+				// Lit, so that the shader gets the vertex normals
+				const normals = new StandardMaterial('displayNormals', this.scene)
+				new NormalColorPlugin(normals)
+				material = normals
+				break
+			}
+			case 'uvChecker': {
+				const checker = new StandardMaterial('displayUVChecker', this.scene)
+				checker.diffuseTexture = this.createCheckerTexture()
+				checker.specularColor = Color3.Black()
+				material = checker
+				break
+			}
+		}
+
+		this.overrides.set(mode, material)
+		return material
+	}
+
+	/**
+	 * Checkerboard with labelled cells, so stretching and flipped UVs show
+	 */
+	private createCheckerTexture(): DynamicTexture {
+		// glTF texture coordinates start at the top left
+		const texture = new DynamicTexture(
+			'displayUVCheckerTexture',
+			{ width: CHECKER_SIZE, height: CHECKER_SIZE },
+			this.scene,
+			true,
+			undefined,
+			undefined,
+			false
+		)
+		const context = texture.getContext() as unknown as CanvasRenderingContext2D
+		const cell = CHECKER_SIZE / CHECKER_CELLS
+
+		context.font = `bold ${cell * 0.35}px sans-serif`
+		context.textAlign = 'center'
+		context.textBaseline = 'middle'
+		for (let row = 0; row < CHECKER_CELLS; row++) {
+			for (let column = 0; column < CHECKER_CELLS; column++) {
+				const dark = (row + column) % 2 === 1
+				context.fillStyle = dark ? '#475569' : '#e2e8f0'
+				context.fillRect(column * cell, row * cell, cell, cell)
+				context.fillStyle = dark ? '#e2e8f0' : '#475569'
+				context.fillText(
+					`${String.fromCharCode(65 + column)}${row + 1}`,
+					(column + 0.5) * cell,
+					(row + 0.5) * cell
+				)
+			}
+		}
+		texture.update(false)
+		return texture
+	}
+
+	private notify(): void {
+		this.callbacks.onChange?.(this.getSettings())
+	}
+}
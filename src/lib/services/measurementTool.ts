@@ -0,0 +1,460 @@
+/**
+ * Measurement Tool Service
+ *
+ * Pointer interaction and display for measuring on the model: click points
+ * on the model surface to measure a distance (2 points), a polyline length,
+ * an angle (3 points, at the second) or the area of a polygon.
+ *
+ * Picked points snap to the corners of the picked triangle and to the points
+ * already placed when the pointer is close to them on screen. Clicking the
+ * first point again closes an area, clicking the last point again ends a
+ * polyline.
+ *
+ * Points are stored in the space of the model root and the lines are drawn
+ * as its children, so measurements move and scale with the model (e.g. in
+ * AR) while their values, computed in model units, stay the same.
+ */
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { Camera } from '@babylonjs/core/Cameras/camera'
+import type { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import type { LinesMesh } from '@babylonjs/core/Meshes/linesMesh'
+import type { Mesh } from '@babylonjs/core/Meshes/mesh'
+import type { PickingInfo } from '@babylonjs/core/Collisions/pickingInfo'
+import { Matrix, Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { Color3 } from '@babylonjs/core/Maths/math.color'
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
+import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder'
+import { VertexBuffer } from '@babylonjs/core/Buffers/buffer'
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
+import { PointerEventTypes, type PointerInfo } from '@babylonjs/core/Events/pointerEvents'
+import {
+	MEASUREMENT_MIN_POINTS,
+	MEASUREMENT_POINT_COUNT,
+	type Measurement,
+	type MeasurementType
+} from '../utils/measurement'
+
+/** Screen distance (CSS pixels) within which picked points snap */
+const SNAP_DISTANCE_PX = 12
+/** Drawn on top of the model, like annotations */
+const MEASUREMENT_RENDERING_GROUP = 1
+
+const LINE_COLOR = Color3.FromHexString('#f59e0b')
+const PREVIEW_COLOR = Color3.FromHexString('#fde68a')
+
+export interface MeasurementToolCallbacks {
+	/** Called when measurements are added, removed or the current one changes */
+	onChange?: (measurements: Measurement[], draft: Measurement | null) => void
+}
+
+interface RenderedMeasurement {
+	measurement: Measurement
+	points: Mesh[]
+	line: LinesMesh | null
+}
+
+interface SnappedPoint {
+	/** World space position */
+	position: Vector3
+	/** Index of the point of the current measurement it snapped to, if any */
+	draftIndex: number | null
+}
+
+export class MeasurementTool {
+	private scene: Scene
+	private camera: Camera
+	private isModelMesh: (mesh: AbstractMesh) => boolean
+	private callbacks: MeasurementToolCallbacks
+
+	private root: TransformNode
+	private material: StandardMaterial
+	private markerSize = 0.01
+
+	private mode: MeasurementType | null = null
+	private draft: RenderedMeasurement | null = null
+	private measurements = new Map<string, RenderedMeasurement>()
+	private hoverMarker: Mesh | null = null
+	private previewLine: LinesMesh | null = null
+	private pointerObserver: Observer<PointerInfo> | null = null
+
+	constructor(
+		scene: Scene,
+		camera: Camera,
+		isModelMesh: (mesh: AbstractMesh) => boolean,
+		callbacks: MeasurementToolCallbacks = {}
+	) {
+		this.scene = scene
+		this.camera = camera
+		this.isModelMesh = isModelMesh
+		this.callbacks = callbacks
+
+		this.root = new TransformNode('measurements', scene)
+		this.material = new StandardMaterial('measurementMaterial', scene)
+		this.material.emissiveColor = LINE_COLOR
+		this.material.disableLighting = true
+	}
+
+	public get activeMode(): MeasurementType | null {
+		return this.mode
+	}
+
+	/**
+	 * Sets the model root the measurements are attached to
+	 *
+	 * @param node - Root node of the model (the glTF __root__), or null to detach
+	 */
+	public setModelRoot(node: TransformNode | null): void {
+		this.root.parent = node
+	}
+
+	/**
+	 * Sets the diameter of the point markers, in model units
+	 */
+	public setMarkerSize(size: number): void {
+		this.markerSize = size
+		for (const rendered of [...this.measurements.values(), this.draft]) {
+			rendered?.points.forEach((point) => point.scaling.setAll(size))
+		}
+		this.hoverMarker?.scaling.setAll(size)
+	}
+
+	/**
+	 * Starts measuring. Clicks on the model add points to a new measurement.
+	 *
+	 * @param mode - The kind of measurement
+	 */
+	public enable(mode: MeasurementType): void {
+		this.cancel()
+		this.mode = mode
+		if (!this.pointerObserver) {
+			this.pointerObserver = this.scene.onPointerObservable.add((pointerInfo) =>
+				this.handlePointer(pointerInfo)
+			)
+		}
+		this.notifyChange()
+	}
+
+	/**
+	 * Stops measuring, discarding an unfinished measurement. Finished
+	 * measurements stay visible.
+	 */
+	public disable(): void {
+		this.cancel()
+		this.mode = null
+		this.scene.onPointerObservable.remove(this.pointerObserver)
+		this.pointerObserver = null
+		this.disposeHover()
+		this.notifyChange()
+	}
+
+	/**
+	 * Completes the current measurement, if it has enough points
+	 */
+	public finish(): void {
+		const draft = this.draft
+		if (
+			!draft ||
+			draft.measurement.points.length < MEASUREMENT_MIN_POINTS[draft.measurement.type]
+		) {
+			return
+		}
+
+		this.draft = null
+		this.measurements.set(draft.measurement.id, draft)
+		this.renderLine(draft, true)
+		this.updatePreview(null)
+		this.notifyChange()
+	}
+
+	/**
+	 * Removes the last point of the current measurement
+	 */
+	public undo(): void {
+		if (!this.draft) return
+
+		this.draft.measurement.points.pop()
+		this.draft.points.pop()?.dispose()
+		if (this.draft.measurement.points.length === 0) {
+			this.cancel()
+		} else {
+			this.renderLine(this.draft, false)
+		}
+		this.updatePreview(null)
+		this.notifyChange()
+	}
+
+	/**
+	 * Discards the current measurement
+	 */
+	public cancel(): void {
+		if (!this.draft) return
+
+		this.disposeRendered(this.draft)
+		this.draft = null
+		this.updatePreview(null)
+		this.notifyChange()
+	}
+
+	public remove(id: string): void {
+		const rendered = this.measurements.get(id)
+		if (!rendered) return
+
+		this.disposeRendered(rendered)
+		this.measurements.delete(id)
+		this.notifyChange()
+	}
+
+	public clear(): void {
+		this.cancel()
+		for (const rendered of this.measurements.values()) {
+			this.disposeRendered(rendered)
+		}
+		this.measurements.clear()
+		this.notifyChange()
+	}
+
+	public getMeasurements(): Measurement[] {
+		return Array.from(this.measurements.values(), (rendered) => rendered.measurement)
+	}
+
+	/**
+	 * Converts a point from model space to world space
+	 */
+	public toWorld(point: Vector3): Vector3 {
+		return Vector3.TransformCoordinates(point, this.root.computeWorldMatrix(true))
+	}
+
+	private toModel(point: Vector3): Vector3 {
+		const inverse = Matrix.Invert(this.root.computeWorldMatrix(true))
+		return Vector3.TransformCoordinates(point, inverse)
+	}
+
+	private handlePointer(pointerInfo: PointerInfo): void {
+		switch (pointerInfo.type) {
+			case PointerEventTypes.POINTERMOVE:
+				this.updatePreview(this.pickPoint())
+				break
+			case PointerEventTypes.POINTERTAP:
+				this.handleTap()
+				break
+		}
+	}
+
+	private handleTap(): void {
+		if (!this.mode) return
+
+		const snapped = this.pickPoint()
+		if (!snapped) return
+
+		const draft = this.draft
+		if (draft && snapped.draftIndex !== null) {
+			const { type, points } = draft.measurement
+			// Clicking the first point closes an area, clicking the last one ends a polyline
+			const closesArea = type === 'area' && snapped.draftIndex === 0
+			const endsPolyline = type === 'polyline' && snapped.draftIndex === points.length - 1
+			if (closesArea || endsPolyline) {
+				this.finish()
+				return
+			}
+		}
+
+		this.addPoint(snapped.position)
+	}
+
+	private addPoint(position: Vector3): void {
+		if (!this.mode) return
+
+		if (!this.draft) {
+			this.draft = {
+				measurement: { id: crypto.randomUUID(), type: this.mode, points: [] },
+				points: [],
+				line: null
+			}
+		}
+
+		const point = this.toModel(position)
+		this.draft.measurement.points.push(point)
+		this.draft.points.push(this.createPointMarker(point))
+		this.renderLine(this.draft, false)
+
+		const count = MEASUREMENT_POINT_COUNT[this.draft.measurement.type]
+		if (count !== null && this.draft.measurement.points.length >= count) {
+			this.finish()
+		} else {
+			this.notifyChange()
+		}
+	}
+
+	/**
+	 * Picks the model under the pointer and snaps to nearby triangle corners
+	 * and points of the current measurement
+	 */
+	private pickPoint(): SnappedPoint | null {
+		const pick = this.scene.pick(this.scene.pointerX, this.scene.pointerY, (mesh) =>
+			this.isModelMesh(mesh)
+		)
+		if (!pick?.hit || !pick.pickedPoint) return null
+
+		const candidates: SnappedPoint[] = [
+			...(this.draft?.measurement.points ?? []).map((point, index) => ({
+				position: this.toWorld(point),
+				draftIndex: index
+			})),
+			...this.getPickedTriangle(pick).map((position) => ({ position, draftIndex: null }))
+		]
+
+		let best: SnappedPoint = { position: pick.pickedPoint.clone(), draftIndex: null }
+		let bestDistance = SNAP_DISTANCE_PX
+		for (const candidate of candidates) {
+			const distance = this.getScreenDistance(candidate.position)
+			if (distance < bestDistance) {
+				best = candidate
+				bestDistance = distance
+			}
+		}
+		return best
+	}
+
+	/**
+	 * World positions of the corners of the picked triangle
+	 */
+	private getPickedTriangle(pick: PickingInfo): Vector3[] {
+		const mesh = pick.pickedMesh
+		const indices = mesh?.getIndices()
+		const positions = mesh?.getVerticesData(VertexBuffer.PositionKind)
+		if (!mesh || !indices || !positions || pick.faceId < 0) return []
+
+		const world = mesh.getWorldMatrix()
+		const corners: Vector3[] = []
+		for (let i = 0; i < 3; i++) {
+			const index = indices[pick.faceId * 3 + i]
+			if (index === undefined) return []
+			corners.push(
+				Vector3.TransformCoordinates(Vector3.FromArray(positions, index * 3), world)
+			)
+		}
+		return corners
+	}
+
+	/**
+	 * Distance between a world position and the pointer on screen, in CSS pixels
+	 */
+	private getScreenDistance(position: Vector3): number {
+		const engine = this.scene.getEngine()
+		const viewport = this.camera.viewport.toGlobal(
+			engine.getRenderWidth(),
+			engine.getRenderHeight()
+		)
+		const projected = Vector3.Project(
+			position,
+			Matrix.IdentityReadOnly,
+			this.scene.getTransformMatrix(),
+			viewport
+		)
+		if (projected.z < 0 || projected.z > 1) return Infinity
+
+		const scaling = engine.getHardwareScalingLevel()
+		return Math.hypot(
+			projected.x * scaling - this.scene.pointerX,
+			projected.y * scaling - this.scene.pointerY
+		)
+	}
+
+	/**
+	 * Shows the point under the pointer and the segment from the last point to it
+	 */
+	private updatePreview(snapped: SnappedPoint | null): void {
+		if (!snapped || !this.mode) {
+			this.hoverMarker?.setEnabled(false)
+			this.previewLine?.setEnabled(false)
+			return
+		}
+
+		if (!this.hoverMarker) {
+			this.hoverMarker = this.createPointMarker(Vector3.Zero())
+			this.hoverMarker.visibility = 0.6
+		}
+		const position = this.toModel(snapped.position)
+		this.hoverMarker.position.copyFrom(position)
+		this.hoverMarker.setEnabled(true)
+
+		const last = this.draft?.measurement.points.at(-1)
+		if (!last) {
+			this.previewLine?.setEnabled(false)
+			return
+		}
+
+		const points = [last, position]
+		this.previewLine = this.previewLine
+			? MeshBuilder.CreateLines('measurementPreview', { points, instance: this.previewLine })
+			: this.createLine('measurementPreview', points, PREVIEW_COLOR)
+		this.previewLine.setEnabled(true)
+	}
+
+	private renderLine(rendered: RenderedMeasurement, complete: boolean): void {
+		rendered.line?.dispose()
+		rendered.line = null
+
+		const { type, points } = rendered.measurement
+		if (points.length < 2) return
+
+		const closed = type === 'area' && complete
+		rendered.line = this.createLine(
+			`measurement_${rendered.measurement.id}`,
+			closed ? [...points, points[0]] : points,
+			LINE_COLOR
+		)
+	}
+
+	private createLine(name: string, points: Vector3[], color: Color3): LinesMesh {
+		const line = MeshBuilder.CreateLines(name, { points, updatable: true }, this.scene)
+		line.color = color
+		line.isPickable = false
+		line.renderingGroupId = MEASUREMENT_RENDERING_GROUP
+		line.parent = this.root
+		return line
+	}
+
+	private createPointMarker(position: Vector3): Mesh {
+		const marker = MeshBuilder.CreateSphere(
+			'measurementPoint',
+			{ diameter: 1, segments: 8 },
+			this.scene
+		)
+		marker.scaling.setAll(this.markerSize)
+		marker.position.copyFrom(position)
+		marker.material = this.material
+		marker.isPickable = false
+		marker.renderingGroupId = MEASUREMENT_RENDERING_GROUP
+		marker.parent = this.root
+		return marker
+	}
+
+	private disposeRendered(rendered: RenderedMeasurement): void {
+		rendered.points.forEach((point) => point.dispose())
+		rendered.line?.dispose()
+	}
+
+	private disposeHover(): void {
+		this.hoverMarker?.dispose()
+		this.previewLine?.dispose()
+		this.hoverMarker = null
+		this.previewLine = null
+	}
+
+	private notifyChange(): void {
+		this.callbacks.onChange?.(
+			this.getMeasurements(),
+			this.draft && { ...this.draft.measurement, points: [...this.draft.measurement.points] }
+		)
+	}
+
+	public dispose(): void {
+		this.disable()
+		this.clear()
+		this.material.dispose()
+		this.root.dispose()
+	}
+}
@@ -0,0 +1,388 @@
+/**
+ * VR Gallery Service
+ *
+ * Presents the model in a simple virtual gallery during immersive WebXR VR
+ * sessions on headsets:
+ *
+ * - a floor with a grid, registered for teleport locomotion
+ * - a plinth for small artifacts, so they are shown at eye level
+ * - grab and rotate: squeezing a controller grip turns the artifact around
+ *   its vertical axis, following the controller around the artifact
+ * - an in-scene info panel for annotations picked with the controller ray
+ */
+
+import type { Scene } from '@babylonjs/core/scene'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { Nullable } from '@babylonjs/core/types'
+import type { Node } from '@babylonjs/core/node'
+import { Matrix, Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { Color3, Color4 } from '@babylonjs/core/Maths/math.color'
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
+import { Mesh } from '@babylonjs/core/Meshes/mesh'
+import { MeshBuilder } from '@babylonjs/core/Meshes/meshBuilder'
+import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial'
+import { DynamicTexture } from '@babylonjs/core/Materials/Textures/dynamicTexture'
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
+import { PointerEventTypes, type PointerInfo } from '@babylonjs/core/Events/pointerEvents'
+import type { WebXRDefaultExperience } from '@babylonjs/core/XR/webXRDefaultExperience'
+import type { WebXRInputSource } from '@babylonjs/core/XR/webXRInputSource'
+import type { WebXRAbstractMotionController } from '@babylonjs/core/XR/motionController/webXRAbstractMotionController'
+import type { Annotation3D } from '../types/annotations'
+import { contentToParagraphs, drawLabel, layoutLabel } from '../utils/labelLayout'
+
+/** Size of the floor, in meters */
+const FLOOR_SIZE = 40
+/** Distance of the artifact in front of the user, in meters */
+const ARTIFACT_DISTANCE = 1.5
+/** Artifacts lower than this stand on a plinth */
+const PLINTH_MAX_MODEL_HEIGHT = 1
+const PLINTH_HEIGHT = 0.9
+/** Info panel text size, 1 layout pixel = 1 mm */
+const INFO_FONT_SIZE = 24
+const INFO_MAX_WIDTH = 500
+const INFO_TEXTURE_SCALE = 2
+
+const BACKGROUND_COLOR = new Color4(0.86, 0.86, 0.84, 1)
+
+export interface VRGalleryOptions {
+	/** Meters per model unit (see unitDetection) */
+	metersPerUnit: number
+	/** Scale factor of the selected AR scale preset (see arScaling) */
+	scaleFactor: number
+}
+
+interface SavedState {
+	parent: Nullable<Node>
+	position: Vector3
+	scaling: Vector3
+	clearColor: Color4
+}
+
+interface Grab {
+	controller: WebXRInputSource
+	/** Angle of the controller around the pivot when the grab started */
+	startAngle: number
+	startRotation: number
+}
+
+export class VRGallery {
+	private xr: WebXRDefaultExperience
+	private scene: Scene
+
+	private modelRoot: TransformNode | null = null
+	private saved: SavedState | null = null
+	private pivot: TransformNode | null = null
+	private floor: Mesh | null = null
+	private plinth: Mesh | null = null
+	private infoPanel: Mesh | null = null
+
+	private grab: Grab | null = null
+	private controllerAddedObserver: Observer<WebXRInputSource> | null = null
+	private frameObserver: Observer<Scene> | null = null
+	private pointerObserver: Observer<PointerInfo> | null = null
+	private squeezeCleanups = new Map<string, () => void>()
+
+	constructor(xr: WebXRDefaultExperience, scene: Scene) {
+		this.xr = xr
+		this.scene = scene
+	}
+
+	/**
+	 * Builds the gallery around the user and places the model in front of
+	 * them, called after entering XR
+	 *
+	 * @param modelRoot - Root node of the model (the glTF __root__)
+	 * @param options - Unit and scale preset of the model
+	 */
+	public start(modelRoot: TransformNode, options: VRGalleryOptions): void {
+		this.stop()
+
+		this.modelRoot = modelRoot
+		this.saved = {
+			parent: modelRoot.parent,
+			position: modelRoot.position.clone(),
+			scaling: modelRoot.scaling.clone(),
+			clearColor: this.scene.clearColor.clone()
+		}
+		this.scene.clearColor = BACKGROUND_COLOR.clone()
+
+		// Scale to meters and the preset, then move the bottom center of the model to the origin
+		modelRoot.parent = null
+		modelRoot.scaling.scaleInPlace(options.metersPerUnit * options.scaleFactor)
+		modelRoot.computeWorldMatrix(true)
+		const { min, max } = modelRoot.getHierarchyBoundingVectors(true)
+		modelRoot.position.subtractInPlace(
+			new Vector3((min.x + max.x) / 2, min.y, (min.z + max.z) / 2)
+		)
+		const size = max.subtract(min)
+
+		// The XR camera starts at the position of the orbit camera, facing the same way
+		const camera = this.xr.baseExperience.camera
+		const forward = camera.getDirection(Vector3.Forward())
+		forward.y = 0
+		if (forward.lengthSquared() < 1e-6) forward.set(0, 0, 1)
+		forward.normalize()
+		const origin = new Vector3(camera.position.x, 0, camera.position.z)
+		const position = origin.add(forward.scale(ARTIFACT_DISTANCE))
+
+		this.floor = this.createFloor(origin)
+		this.xr.teleportation?.addFloorMesh(this.floor)
+
+		if (size.y < PLINTH_MAX_MODEL_HEIGHT) {
+			const footprint = Math.max(0.3, Math.max(size.x, size.z) * 1.2)
+			this.plinth = this.createPlinth(position, footprint)
+			position.y = PLINTH_HEIGHT
+		}
+
+		this.pivot = new TransformNode('vrGalleryPivot', this.scene)
+		this.pivot.position.copyFrom(position)
+		// Face the user
+		this.pivot.rotation.y = Math.atan2(-forward.x, -forward.z)
+		modelRoot.parent = this.pivot
+
+		this.controllerAddedObserver = this.xr.input.onControllerAddedObservable.add((controller) =>
+			this.setupController(controller)
+		)
+		for (const controller of this.xr.input.controllers) {
+			this.setupController(controller)
+		}
+		this.frameObserver = this.scene.onBeforeRenderObservable.add(() => this.updateGrab())
+		this.pointerObserver = this.scene.onPointerObservable.add((pointerInfo) => {
+			if (
+				pointerInfo.type === PointerEventTypes.POINTERTAP &&
+				this.infoPanel &&
+				pointerInfo.pickInfo?.pickedMesh === this.infoPanel
+			) {
+				this.hideInfo()
+			}
+		})
+
+		console.log(
+			`[VR Gallery] Started (model ${size.x.toFixed(2)} × ${size.y.toFixed(2)} × ${size.z.toFixed(2)} m${this.plinth ? ', on plinth' : ''})`
+		)
+	}
+
+	/**
+	 * Removes the gallery and restores the model, called when leaving XR
+	 */
+	public stop(): void {
+		this.hideInfo()
+
+		this.xr.input.onControllerAddedObservable.remove(this.controllerAddedObserver)
+		this.scene.onBeforeRenderObservable.remove(this.frameObserver)
+		this.scene.onPointerObservable.remove(this.pointerObserver)
+		this.controllerAddedObserver = null
+		this.frameObserver = null
+		this.pointerObserver = null
+		for (const cleanup of this.squeezeCleanups.values()) cleanup()
+		this.squeezeCleanups.clear()
+		this.grab = null
+
+		if (this.modelRoot && this.saved) {
+			this.modelRoot.parent = this.saved.parent
+			this.modelRoot.position.copyFrom(this.saved.position)
+			this.modelRoot.scaling.copyFrom(this.saved.scaling)
+			this.scene.clearColor = this.saved.clearColor
+		}
+		this.modelRoot = null
+		this.saved = null
+
+		if (this.floor) {
+			this.xr.teleportation?.removeFloorMesh(this.floor)
+		}
+		for (const mesh of [this.floor, this.plinth]) {
+			mesh?.material?.dispose(false, true)
+			mesh?.dispose()
+		}
+		this.pivot?.dispose()
+		this.floor = null
+		this.plinth = null
+		this.pivot = null
+	}
+
+	/**
+	 * Shows the content of an annotation on a panel above it, facing the user.
+	 * Tapping the panel closes it.
+	 *
+	 * @param annotation - The annotation to show
+	 * @param worldPosition - World position of the annotation marker
+	 */
+	public showInfo(annotation: Annotation3D, worldPosition: Vector3): void {
+		this.hideInfo()
+
+		const paragraphs = contentToParagraphs(annotation.content)
+		const measureContext = document.createElement('canvas').getContext('2d')
+		if (paragraphs.length === 0 || !measureContext) return
+
+		const layout = layoutLabel(measureContext, paragraphs, {
+			fontSize: INFO_FONT_SIZE,
+			maxWidth: INFO_MAX_WIDTH,
+			padding: 20,
+			maxLines: 12
+		})
+
+		const texture = new DynamicTexture(
+			`vrInfoTexture_${annotation.id}`,
+			{
+				width: Math.ceil(layout.width * INFO_TEXTURE_SCALE),
+				height: Math.ceil(layout.height * INFO_TEXTURE_SCALE)
+			},
+			this.scene
+		)
+		texture.hasAlpha = true
+		const context = texture.getContext() as unknown as CanvasRenderingContext2D
+		context.save()
+		context.scale(INFO_TEXTURE_SCALE, INFO_TEXTURE_SCALE)
+		drawLabel(
+			context,
+			layout,
+			INFO_FONT_SIZE,
+			{ backgroundColor: 'rgba(255, 255, 255, 0.95)', textColor: '#1e293b' },
+			12
+		)
+		context.restore()
+		texture.update()
+
+		// 1 layout pixel = 1 mm, with the bottom edge just above the marker
+		const width = layout.width / 1000
+		const height = layout.height / 1000
+		const panel = MeshBuilder.CreatePlane('vrInfoPanel', { width, height }, this.scene)
+		panel.bakeTransformIntoVertices(Matrix.Translation(0, height / 2 + 0.05, 0))
+
+		const material = new StandardMaterial('vrInfoPanelMaterial', this.scene)
+		material.diffuseTexture = texture
+		material.useAlphaFromDiffuseTexture = true
+		material.disableLighting = true
+		material.emissiveColor = Color3.White()
+		material.backFaceCulling = false
+
+		panel.material = material
+		panel.billboardMode = Mesh.BILLBOARDMODE_Y
+		panel.renderingGroupId = 1
+		panel.position.copyFrom(worldPosition)
+		this.infoPanel = panel
+	}
+
+	/**
+	 * Closes the annotation info panel
+	 */
+	public hideInfo(): void {
+		this.infoPanel?.material?.dispose(false, true)
+		this.infoPanel?.dispose()
+		this.infoPanel = null
+	}
+
+	public dispose(): void {
+		this.stop()
+	}
+
+	private createFloor(center: Vector3): Mesh {
+		const floor = MeshBuilder.CreateGround(
+			'vrGalleryFloor',
+			{ width: FLOOR_SIZE, height: FLOOR_SIZE },
+			this.scene
+		)
+		floor.position.copyFrom(center)
+
+		// A 1 m grid helps to judge distances and the size of the artifact
+		const texture = new DynamicTexture(
+			'vrGalleryFloorTexture',
+			{ width: 256, height: 256 },
+			this.scene
+		)
+		const context = texture.getContext() as unknown as CanvasRenderingContext2D
+		context.fillStyle = '#b8b5ae'
+		context.fillRect(0, 0, 256, 256)
+		context.strokeStyle = '#9c9890'
+		context.lineWidth = 4
+		context.strokeRect(0, 0, 256, 256)
+		texture.update()
+		texture.wrapU = Texture.WRAP_ADDRESSMODE
+		texture.wrapV = Texture.WRAP_ADDRESSMODE
+		texture.uScale = FLOOR_SIZE
+		texture.vScale = FLOOR_SIZE
+
+		const material = new StandardMaterial('vrGalleryFloorMaterial', this.scene)
+		material.diffuseTexture = texture
+		material.emissiveTexture = texture
+		material.disableLighting = true
+		floor.material = material
+		// Only teleportation picks the floor
+		floor.isPickable = false
+		return floor
+	}
+
+	private createPlinth(position: Vector3, size: number): Mesh {
+		const plinth = MeshBuilder.CreateBox(
+			'vrGalleryPlinth',
+			{ width: size, depth: size, height: PLINTH_HEIGHT },
+			this.scene
+		)
+		plinth.position.set(position.x, PLINTH_HEIGHT / 2, position.z)
+
+		const material = new StandardMaterial('vrGalleryPlinthMaterial', this.scene)
+		material.diffuseColor = new Color3(0.97, 0.97, 0.96)
+		material.emissiveColor = new Color3(0.35, 0.35, 0.34)
+		material.specularColor = Color3.Black()
+		plinth.material = material
+		plinth.isPickable = false
+		return plinth
+	}
+
+	private setupController(controller: WebXRInputSource): void {
+		if (this.squeezeCleanups.has(controller.uniqueId)) return
+
+		const setupSqueeze = (motionController: WebXRAbstractMotionController) => {
+			const squeeze = motionController.getComponentOfType('squeeze')
+			if (!squeeze || !this.modelRoot) return
+
+			const observer = squeeze.onButtonStateChangedObservable.add((component) => {
+				if (component.pressed) {
+					this.startGrab(controller)
+				} else if (this.grab?.controller === controller) {
+					this.grab = null
+				}
+			})
+			this.squeezeCleanups.set(controller.uniqueId, () => {
+				squeeze.onButtonStateChangedObservable.remove(observer)
+			})
+		}
+
+		// Motion controllers load asynchronously, they may not be ready yet
+		if (controller.motionController) {
+			setupSqueeze(controller.motionController)
+		} else {
+			const observer = controller.onMotionControllerInitObservable.addOnce(setupSqueeze)
+			this.squeezeCleanups.set(controller.uniqueId, () => {
+				controller.onMotionControllerInitObservable.remove(observer)
+			})
+		}
+	}
+
+	private startGrab(controller: WebXRInputSource): void {
+		if (!this.pivot) return
+
+		this.grab = {
+			controller,
+			startAngle: this.getControllerAngle(controller),
+			startRotation: this.pivot.rotation.y
+		}
+	}
+
+	/**
+	 * Turns the artifact by the angle the grabbing controller moved around it
+	 */
+	private updateGrab(): void {
+		if (!this.grab || !this.pivot) return
+
+		const angle = this.getControllerAngle(this.grab.controller)
+		this.pivot.rotation.y = this.grab.startRotation + (angle - this.grab.startAngle)
+	}
+
+	private getControllerAngle(controller: WebXRInputSource): number {
+		const node = controller.grip ?? controller.pointer
+		const position = node.getAbsolutePosition()
+		const pivot = this.pivot!.position
+		return Math.atan2(position.x - pivot.x, position.z - pivot.z)
+	}
+}
@@ -0,0 +1,195 @@
+import type { AnnotationFilter } from '$lib/types/annotations'
+import type { DisplayMode, DisplaySettings, LightingPreset } from '$lib/services/displayModes'
+import {
+	parseClippingState,
+	serializeClippingState,
+	type ClippingState,
+	type Vector3Tuple
+} from '$lib/utils/clipping'
+
+export interface ViewerCameraState {
+	alpha: number
+	beta: number
+	radius: number
+	target: Vector3Tuple
+}
+
+export interface ViewerState {
+	camera?: ViewerCameraState
+	/** Id of the selected annotation */
+	annotationId?: string
+	/** Display settings that differ from the defaults */
+	display?: Partial<DisplaySettings>
+	filter?: AnnotationFilter
+	clipping?: ClippingState
+}
+
+type Priority = NonNullable<AnnotationFilter['priority']>[number]
+
+const DISPLAY_MODES: DisplayMode[] = ['textured', 'clay', 'wireframe', 'normals', 'uvChecker']
+const LIGHTING_PRESETS: LightingPreset[] = ['studio', 'soft', 'flat', 'dark']
+const PRIORITIES: Priority[] = ['low', 'medium', 'high']
+
+/** URL parameters written by the viewer, replaced when the view changes */
+export const VIEWER_STATE_PARAMS = [
+	'cam',
+	'annotation',
+	'display',
+	'lighting',
+	'exposure',
+	'rake',
+	'q',
+	'category',
+	'tag',
+	'priority',
+	'author',
+	'dates',
+	'clip'
+]
+
+export function parseViewerState(params: URLSearchParams): ViewerState {
+	const state: ViewerState = {}
+
+	const camera = parseNumbers(params.get('cam'), 6)
+	if (camera && camera[2] > 0) {
+		const [alpha, beta, radius, x, y, z] = camera
+		state.camera = { alpha, beta, radius, target: [x, y, z] }
+	}
+
+	const annotationId = params.get('annotation')
+	if (annotationId) {
+		state.annotationId = annotationId
+	}
+
+	const display: Partial<DisplaySettings> = {}
+	const mode = params.get('display') as DisplayMode | null
+	if (mode && DISPLAY_MODES.includes(mode)) {
+		display.mode = mode
+	}
+	const lighting = params.get('lighting') as LightingPreset | null
+	if (lighting && LIGHTING_PRESETS.includes(lighting)) {
+		display.lighting = lighting
+	}
+	const exposure = Number(params.get('exposure'))
+	if (params.has('exposure') && exposure > 0 && exposure <= 10) {
+		display.exposure = exposure
+	}
+	const rake = parseNumbers(params.get('rake'), 3)
+	if (rake) {
+		const [azimuth, elevation, intensity] = rake
+		if (elevation >= 0 && elevation <= 90 && intensity > 0 && intensity <= 10) {
+			display.raking = { enabled: true, azimuth, elevation, intensity }
+		}
+	}
+	if (Object.keys(display).length > 0) {
+		state.display = display
+	}
+
+	const filter: AnnotationFilter = {}
+	const searchText = params.get('q')?.trim()
+	if (searchText) {
+		filter.searchText = searchText
+	}
+	const categories = params.getAll('category').filter(Boolean)
+	if (categories.length > 0) {
+		filter.categories = categories
+	}
+	const tags = params.getAll('tag').filter(Boolean)
+	if (tags.length > 0) {
+		filter.tags = tags
+	}
+	const priorities = params
+		.getAll('priority')
+		.filter((value): value is Priority => PRIORITIES.includes(value as Priority))
+	if (priorities.length > 0) {
+		filter.priority = priorities
+	}
+	const authors = params.getAll('author').filter(Boolean)
+	if (authors.length > 0) {
+		filter.authors = authors
+	}
+	const dateRange = parseDateRange(params.get('dates'))
+	if (dateRange) {
+		filter.dateRange = dateRange
+	}
+	if (Object.keys(filter).length > 0) {
+		state.filter = filter
+	}
+
+	const clipping = parseClippingState(params.get('clip'))
+	if (clipping) {
+		state.clipping = clipping
+	}
+
+	return state
+}
+
+export function buildViewerUrl(url: string | URL, state: ViewerState): string {
+	const result = new URL(url)
+	const params = result.searchParams
+	for (const name of VIEWER_STATE_PARAMS) {
+		params.delete(name)
+	}
+
+	if (state.camera) {
+		const { alpha, beta, radius, target } = state.camera
+		params.set('cam', formatNumbers([alpha, beta, radius, ...target], 4))
+	}
+	if (state.annotationId) {
+		params.set('annotation', state.annotationId)
+	}
+
+	const display = state.display ?? {}
+	if (display.mode && display.mode !== 'textured') {
+		params.set('display', display.mode)
+	}
+	if (display.lighting && display.lighting !== 'studio') {
+		params.set('lighting', display.lighting)
+	}
+	if (display.exposure !== undefined && display.exposure !== 1) {
+		params.set('exposure', formatNumbers([display.exposure], 2))
+	}
+	if (display.raking?.enabled) {
+		const { azimuth, elevation, intensity } = display.raking
+		params.set('rake', formatNumbers([azimuth, elevation, intensity], 1))
+	}
+
+	const filter = state.filter ?? {}
+	if (filter.searchText) {
+		params.set('q', filter.searchText)
+	}
+	filter.categories?.forEach((category) => params.append('category', category))
+	filter.tags?.forEach((tag) => params.append('tag', tag))
+	filter.priority?.forEach((priority) => params.append('priority', priority))
+	filter.authors?.forEach((author) => params.append('author', author))
+	if (filter.dateRange) {
+		const { start, end } = filter.dateRange
+		params.set('dates', `${start.toISOString()}_${end.toISOString()}`)
+	}
+
+	const clip = serializeClippingState(state.clipping ?? null)
+	if (clip) {
+		params.set('clip', clip)
+	}
+
+	return result.toString()
+}
+
+function parseNumbers(value: string | null, count: number): number[] | null {
+	if (!value) return null
+	const numbers = value.split('_').map(Number)
+	if (numbers.length !== count || numbers.some((n) => !Number.isFinite(n))) return null
+	return numbers
+}
+
+function parseDateRange(value: string | null): AnnotationFilter['dateRange'] | null {
+	const [start, end, ...rest] = value?.split('_').map((date) => new Date(date)) ?? []
+	if (!start || !end || rest.length > 0) return null
+	if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) return null
+	return { start, end }
+}
+
+function formatNumbers(numbers: number[], decimals: number): string {
+	const factor = 10 ** decimals
+	return numbers.map((n) => Math.round(n * factor) / factor).join('_')
+}
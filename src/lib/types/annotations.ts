@@ -1,5 +1,10 @@
 import { Vector3 } from '@babylonjs/core/Maths/math.vector'
 import type { Mesh } from '@babylonjs/core/Meshes/mesh'
+import { parseWKT, type WKTCoordinate } from '../utils/wkt'
+import { polygonCentroid } from '../utils/polygon'
+import { NO_LANGUAGE, pickLanguage } from '../utils/i18n'
+
+import type { IIIFAnnotation, IIIFAnnotationBody, IIIFSelector } from '../../services/xmlParser'
 
 export type {
 	IIIFAnnotation,
@@ -31,6 +36,14 @@ export interface AnnotationContent {
 	author?: string
 	created?: Date
 	updated?: Date
+	/** Texts of multilingual annotations by language code ('none' for no language) */
+	translations?: Record<string, AnnotationTranslation>
+}
+
+export interface AnnotationTranslation {
+	title?: string
+	description: string
+	format: AnnotationContent['format']
 }
 
 export interface AnnotationStyle {
@@ -38,6 +51,8 @@ export interface AnnotationStyle {
 	size: number
 	opacity: number
 	highlightColor?: string
+	/** Opacity of the fill for closed polygons and region volumes (0 disables the fill) */
+	fillOpacity?: number
 	labelStyle: LabelStyle
 	markerStyle: MarkerStyle
 }
@@ -48,7 +63,9 @@ export interface LabelStyle {
 	fontSize: number
 	padding: number
 	borderRadius: number
+	/** Maximum label width in pixels; longer text is word-wrapped */
 	maxWidth: number
+	/** Side of the anchor point (marker position + offset) the label is placed on, on screen */
 	position: 'above' | 'below' | 'left' | 'right' | 'auto'
 	offset: Vector3
 }
@@ -65,12 +82,16 @@ export interface AnnotationMetadata {
 	tags?: string[]
 	category?: string
 	priority?: 'low' | 'medium' | 'high'
+	/** Position of the annotation in the guided tour (ascending) */
+	tourOrder?: number
 }
 
 export interface PolygonAnnotation3D extends Annotation3D {
 	type: 'polygon'
 	vertices: Vector3[]
 	closed: boolean
+	/** Inner rings (holes) of a closed polygon */
+	holes?: Vector3[][]
 }
 
 export interface RegionAnnotation3D extends Annotation3D {
@@ -86,9 +107,13 @@ export interface RenderedAnnotation {
 	annotation: Annotation3D
 	marker: Mesh
 	label?: Mesh
+	outline?: Mesh
+	fill?: Mesh
 	labelTexture?: any
 	isVisible: boolean
 	isHighlighted: boolean
+	/** Whether model geometry is between the camera and the annotation */
+	isOccluded?: boolean
 }
 
 export interface AnnotationConfig {
@@ -96,13 +121,25 @@ export interface AnnotationConfig {
 	enableInteraction: boolean
 	enableTooltips: boolean
 	enableFiltering: boolean
+	/** Only the nearest annotations up to this number are shown */
 	maxVisibleAnnotations: number
+	/** Camera distance beyond which markers fade out (fully transparent at twice the distance, 0 disables) */
 	fadeDistance: number
 	scaleWithDistance: boolean
+	/** How markers and labels behind model geometry are shown */
+	occlusionMode: 'none' | 'fade' | 'hide'
+	/** Opacity factor of occluded markers and labels in 'fade' mode */
+	occludedOpacity: number
 }
 
+export type AnnotationEventType = 'click' | 'hover' | 'leave' | 'focus' | 'blur'
+
 export interface AnnotationEvent {
-	type: 'click' | 'hover' | 'focus' | 'blur'
+	/**
+	 * click: marker tapped or opened with the keyboard; hover/leave: pointer
+	 * entered/left a marker; focus/blur: keyboard focus moved to/away from it
+	 */
+	type: AnnotationEventType
 	annotation: Annotation3D
 	position: Vector3
 	screenPosition?: { x: number; y: number }
@@ -125,6 +162,7 @@ export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = {
 	size: 0.02,
 	opacity: 0.9,
 	highlightColor: '#f59e0b',
+	fillOpacity: 0.25,
 	labelStyle: {
 		backgroundColor: 'rgba(255, 255, 255, 0.95)',
 		textColor: '#1f2937',
@@ -170,6 +208,62 @@ export function isRegionAnnotation(annotation: Annotation3D): annotation is Regi
 	return annotation.type === 'region'
 }
 
+// Filtering
+/**
+ * Checks an annotation against every field of an AnnotationFilter.
+ * Unset or empty filter fields match everything. Annotations without a
+ * category always pass the category filter, as before.
+ */
+export function annotationMatchesFilter(annotation: Annotation3D, filter: AnnotationFilter): boolean {
+	const { content, metadata } = annotation
+
+	if (filter.categories?.length && metadata?.category) {
+		if (!filter.categories.includes(metadata.category)) {
+			return false
+		}
+	}
+
+	if (filter.tags?.length) {
+		if (!metadata?.tags?.some((tag) => filter.tags!.includes(tag))) {
+			return false
+		}
+	}
+
+	if (filter.authors?.length) {
+		if (!content.author || !filter.authors.includes(content.author)) {
+			return false
+		}
+	}
+
+	if (filter.priority?.length) {
+		if (!metadata?.priority || !filter.priority.includes(metadata.priority)) {
+			return false
+		}
+	}
+
+	if (filter.dateRange) {
+		const date = content.updated ?? content.created
+		if (!date) return false
+		const time = date.getTime()
+		if (time < filter.dateRange.start.getTime() || time > filter.dateRange.end.getTime()) {
+			return false
+		}
+	}
+
+	if (filter.searchText?.trim()) {
+		const searchLower = filter.searchText.trim().toLowerCase()
+		const haystack = [content.title, content.description, content.author, ...(metadata?.tags ?? [])]
+			.filter(Boolean)
+			.join(' ')
+			.toLowerCase()
+		if (!haystack.includes(searchLower)) {
+			return false
+		}
+	}
+
+	return true
+}
+
 // Conversion utilities
 export function iiifToAnnotation3D(iiifAnnotation: any): Annotation3D | null {
 	try {
@@ -178,7 +272,29 @@ export function iiifToAnnotation3D(iiifAnnotation: any): Annotation3D | null {
 		}
 
 		const selector = iiifAnnotation.target.selector[0]
-		
+		const bodies = getBodies(iiifAnnotation)
+		const tags = bodies
+			.filter((body) => body.purpose === 'tagging' && body.value)
+			.map((body) => body.value as string)
+		const category = bodies.find((body) => body.purpose === 'classifying')?.value
+
+		const base = {
+			id: iiifAnnotation.id,
+			content: iiifBodyToContent(iiifAnnotation),
+			visibility: true,
+			interactive: true,
+			style: { ...DEFAULT_ANNOTATION_STYLE },
+			metadata: {
+				source: 'iiif',
+				category: category || 'general',
+				...(tags.length > 0 && { tags }),
+				...(iiifAnnotation.priority && { priority: iiifAnnotation.priority }),
+				...(typeof iiifAnnotation.tourOrder === 'number' && {
+					tourOrder: iiifAnnotation.tourOrder
+				})
+			} as AnnotationMetadata
+		}
+
 		if (selector.type === 'PointSelector') {
 			const position = new Vector3(
 				selector.x || 0,
@@ -186,44 +302,336 @@ export function iiifToAnnotation3D(iiifAnnotation: any): Annotation3D | null {
 				selector.z || 0
 			)
 
-			let content: AnnotationContent
-			if (typeof iiifAnnotation.body === 'string' || iiifAnnotation.bodyValue) {
-				content = {
-					description: iiifAnnotation.bodyValue || iiifAnnotation.body,
-					format: 'text'
-				}
-			} else if (iiifAnnotation.body?.value) {
-				content = {
-					description: iiifAnnotation.body.value,
-					format: iiifAnnotation.body.format === 'text/html' ? 'html' : 'text',
-					language: iiifAnnotation.body.language
-				}
-			} else {
-				content = {
-					description: 'Annotation',
-					format: 'text'
-				}
+			return { ...base, type: 'point', position }
+		}
+
+		if (selector.type === 'WKTSelector' && typeof selector.value === 'string') {
+			const geometry = parseWKT(selector.value)
+			if (!geometry) {
+				console.warn(`Unsupported WKT geometry in annotation ${iiifAnnotation.id}`)
+				return null
 			}
 
-			return {
-				id: iiifAnnotation.id,
-				type: 'point',
-				position,
-				content,
-				visibility: true,
-				interactive: true,
-				style: { ...DEFAULT_ANNOTATION_STYLE },
-				metadata: {
-					source: 'iiif',
-					category: 'general'
-				}
+			const toVector = ([x, y, z]: WKTCoordinate) => new Vector3(x, y, z)
+			const vertices = geometry.coordinates.map(toVector)
+
+			if (geometry.type === 'point') {
+				return { ...base, type: 'point', position: vertices[0] }
+			}
+
+			const polygon: PolygonAnnotation3D = {
+				...base,
+				type: 'polygon',
+				position: polygonCentroid(vertices),
+				vertices,
+				closed: geometry.type === 'polygon',
+				...(geometry.holes.length > 0 && {
+					holes: geometry.holes.map((hole) => hole.map(toVector))
+				})
+			}
+			return polygon
+		}
+
+		const box = parseBoxSelector(selector)
+		if (box) {
+			const region: RegionAnnotation3D = {
+				...base,
+				type: 'region',
+				position: Vector3.Center(box.min, box.max),
+				boundingBox: box
 			}
+			return region
 		}
 
-		// TODO: Handle polygon annotations with WKTSelector
 		return null
 	} catch (error) {
 		console.error('Failed to convert IIIF annotation:', error instanceof Error ? error.message : error)
 		return null
 	}
 }
+
+/**
+ * Reads a min/max box from either a custom BoxSelector or a FragmentSelector
+ * with a "bbox=minX,minY,minZ,maxX,maxY,maxZ" value
+ */
+function parseBoxSelector(selector: any): { min: Vector3; max: Vector3 } | null {
+	let values: number[] | null = null
+
+	if (selector.type === 'BoxSelector' && selector.min && selector.max) {
+		values = [
+			selector.min.x,
+			selector.min.y,
+			selector.min.z,
+			selector.max.x,
+			selector.max.y,
+			selector.max.z
+		].map(Number)
+	} else if (selector.type === 'FragmentSelector' && typeof selector.value === 'string') {
+		const match = /(?:^|&)bbox=([^&]+)/.exec(selector.value)
+		if (match) {
+			values = match[1].split(',').map(Number)
+		}
+	}
+
+	if (!values || values.length !== 6 || values.some((v) => !Number.isFinite(v))) {
+		return null
+	}
+
+	const a = new Vector3(values[0], values[1], values[2])
+	const b = new Vector3(values[3], values[4], values[5])
+	return { min: Vector3.Minimize(a, b), max: Vector3.Maximize(a, b) }
+}
+
+function getBodies(iiifAnnotation: any): IIIFAnnotationBody[] {
+	if (Array.isArray(iiifAnnotation.body)) return iiifAnnotation.body
+	if (iiifAnnotation.body && typeof iiifAnnotation.body === 'object') return [iiifAnnotation.body]
+	return []
+}
+
+/**
+ * Parses an annotation date, leaving out values that are not a valid date
+ * (they would make toISOString throw when the annotation is exported)
+ */
+function parseDate(value: unknown): Date | undefined {
+	if (typeof value !== 'string' && typeof value !== 'number') return undefined
+	const date = new Date(value)
+	return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function iiifBodyToContent(iiifAnnotation: any): AnnotationContent {
+	const meta = {
+		author:
+			typeof iiifAnnotation.creator === 'string'
+				? iiifAnnotation.creator
+				: iiifAnnotation.creator?.name,
+		created: parseDate(iiifAnnotation.created),
+		updated: parseDate(iiifAnnotation.modified)
+	}
+
+	if (typeof iiifAnnotation.body === 'string' || iiifAnnotation.bodyValue) {
+		return {
+			description: iiifAnnotation.bodyValue || iiifAnnotation.body,
+			format: 'text',
+			...meta
+		}
+	}
+
+	// Tagging/classifying bodies carry metadata, not the annotation text
+	const textBodies = expandChoiceBodies(getBodies(iiifAnnotation)).filter(
+		(body) => body.value && body.purpose !== 'tagging' && body.purpose !== 'classifying'
+	)
+	let descriptionBodies = textBodies.filter((b) => b.purpose !== 'describing')
+	let titleBodies = textBodies.filter((b) => b.purpose === 'describing')
+	if (descriptionBodies.length === 0) {
+		descriptionBodies = titleBodies.slice(0, 1)
+		titleBodies = titleBodies.slice(1)
+	}
+
+	// One translation per language; the first body is the default (as for IIIF Choice)
+	const translations: Record<string, AnnotationTranslation> = {}
+	for (const body of descriptionBodies) {
+		const language = body.language || NO_LANGUAGE
+		if (translations[language]) continue
+
+		const title =
+			titleBodies.find((b) => b.language === body.language) ||
+			titleBodies.find((b) => !b.language) ||
+			(descriptionBodies.length === 1 ? titleBodies[0] : undefined)
+		translations[language] = {
+			title: title?.value,
+			description: body.value!,
+			format: formatFromMimeType(body.format)
+		}
+	}
+
+	const body = descriptionBodies[0]
+	if (body?.value) {
+		const isMultilingual = Object.keys(translations).length > 1
+		return {
+			...translations[body.language || NO_LANGUAGE],
+			language: body.language,
+			...(isMultilingual && { translations }),
+			...meta
+		}
+	}
+
+	return {
+		description: 'Annotation',
+		format: 'text',
+		...meta
+	}
+}
+
+/**
+ * Replaces IIIF Choice bodies by their items. Items inherit the purpose of the
+ * Choice unless they have their own.
+ */
+function expandChoiceBodies(bodies: IIIFAnnotationBody[]): IIIFAnnotationBody[] {
+	return bodies.flatMap((body) =>
+		body.type === 'Choice' && Array.isArray(body.items)
+			? body.items.map((item) => ({ purpose: body.purpose, ...item }))
+			: [body]
+	)
+}
+
+/**
+ * Returns the content in the best matching of the preferred languages.
+ * Content without translations is returned unchanged.
+ */
+export function localizeContent(
+	content: AnnotationContent,
+	preferredLanguages: string[]
+): AnnotationContent {
+	if (!content.translations) return content
+
+	const language = pickLanguage(Object.keys(content.translations), preferredLanguages)
+	const translation = language ? content.translations[language] : undefined
+	if (!translation || language === (content.language || NO_LANGUAGE)) return content
+
+	return {
+		...content,
+		title: translation.title,
+		description: translation.description,
+		format: translation.format,
+		language: language === NO_LANGUAGE ? undefined : language
+	}
+}
+
+/**
+ * Returns all languages annotation texts are available in
+ */
+export function getAnnotationLanguages(annotations: Annotation3D[]): string[] {
+	const languages = new Set<string>()
+	for (const { content } of annotations) {
+		for (const language of Object.keys(content.translations ?? {})) {
+			languages.add(language)
+		}
+		if (content.language) languages.add(content.language)
+	}
+	languages.delete(NO_LANGUAGE)
+	return Array.from(languages).sort()
+}
+
+function formatFromMimeType(mimeType?: string): AnnotationContent['format'] {
+	if (mimeType === 'text/html') return 'html'
+	if (mimeType === 'text/markdown') return 'markdown'
+	return 'text'
+}
+
+const FORMAT_MIME_TYPES: Record<AnnotationContent['format'], string> = {
+	text: 'text/plain',
+	html: 'text/html',
+	markdown: 'text/markdown'
+}
+
+/**
+ * Converts an Annotation3D back into a IIIF commenting annotation.
+ * The title becomes a 'describing' body, tags become 'tagging' bodies and the
+ * category a 'classifying' body, so iiifToAnnotation3D can read them back.
+ *
+ * @param annotation - The annotation to convert
+ * @param sourceId - Id of the scene or model the annotation targets
+ */
+export function annotation3DToIIIF(annotation: Annotation3D, sourceId: string): IIIFAnnotation {
+	const { content, metadata } = annotation
+
+	// Multilingual annotations get one commenting (and describing) body per language
+	const translations: Record<string, AnnotationTranslation> = {
+		...content.translations,
+		[content.language || NO_LANGUAGE]: {
+			title: content.title,
+			description: content.description,
+			format: content.format
+		}
+	}
+
+	const bodies: IIIFAnnotationBody[] = []
+	for (const [language, translation] of Object.entries(translations)) {
+		const languageProperty = language !== NO_LANGUAGE && { language }
+		bodies.push({
+			type: 'TextualBody',
+			value: translation.description,
+			format: FORMAT_MIME_TYPES[translation.format],
+			purpose: 'commenting',
+			...languageProperty
+		})
+		if (translation.title) {
+			bodies.push({
+				type: 'TextualBody',
+				value: translation.title,
+				purpose: 'describing',
+				...languageProperty
+			})
+		}
+	}
+	if (metadata?.category) {
+		bodies.push({ type: 'TextualBody', value: metadata.category, purpose: 'classifying' })
+	}
+	for (const tag of metadata?.tags || []) {
+		bodies.push({ type: 'TextualBody', value: tag, purpose: 'tagging' })
+	}
+
+	return {
+		id: annotation.id,
+		type: 'Annotation',
+		motivation: ['commenting'],
+		body: bodies,
+		target: {
+			type: 'SpecificResource',
+			source: [{ id: sourceId, type: 'Scene' }],
+			selector: [annotationToSelector(annotation)]
+		},
+		...(content.author && { creator: { type: 'Person', name: content.author } }),
+		...(content.created && { created: content.created.toISOString() }),
+		...(content.updated && { modified: content.updated.toISOString() }),
+		...(metadata?.priority && { priority: metadata.priority }),
+		...(metadata?.tourOrder !== undefined && { tourOrder: metadata.tourOrder })
+	}
+}
+
+function annotationToSelector(annotation: Annotation3D): IIIFSelector {
+	if (isPolygonAnnotation(annotation)) {
+		const toCoordinates = (vertices: Vector3[]) =>
+			vertices.map((v) => `${v.x} ${v.y} ${v.z}`).join(', ')
+		if (!annotation.closed) {
+			return {
+				type: 'WKTSelector',
+				value: `LINESTRING Z (${toCoordinates(annotation.vertices)})`
+			}
+		}
+
+		const rings = [annotation.vertices, ...(annotation.holes ?? [])]
+			.map((ring) => `(${toCoordinates([...ring, ring[0]])})`)
+			.join(', ')
+		return { type: 'WKTSelector', value: `POLYGON Z (${rings})` }
+	}
+
+	if (isRegionAnnotation(annotation)) {
+		const { min, max } = annotation.boundingBox
+		return {
+			type: 'BoxSelector',
+			min: { x: min.x, y: min.y, z: min.z },
+			max: { x: max.x, y: max.y, z: max.z }
+		}
+	}
+
+	const { x, y, z } = annotation.position
+	return { type: 'PointSelector', x, y, z }
+}
+
+/**
+ * Wraps annotations in a IIIF AnnotationPage that the embed route's
+ * `annotations` parameter can load back.
+ */
+export function createIIIFAnnotationPage(
+	annotations: Annotation3D[],
+	sourceId: string,
+	pageId: string = `urn:uuid:${crypto.randomUUID()}`
+) {
+	return {
+		'@context': 'http://iiif.io/api/presentation/3/context.json',
+		id: pageId,
+		type: 'AnnotationPage' as const,
+		items: annotations.map((annotation) => annotation3DToIIIF(annotation, sourceId))
+	}
+}
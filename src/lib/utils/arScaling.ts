@@ -143,3 +143,107 @@ export function requiresARScaling(
 	return Math.max(dimensions.width, dimensions.height, dimensions.depth) > maxDimension
 }
 
+
+/**
+ * AR scale presets selectable by the user:
+ * - true-scale: real size (1:1), e.g. to stand next to a statue
+ * - tabletop: fits the model into 30cm, e.g. a cathedral on a desk
+ * - room: fits the model into 2m (the default)
+ * - custom: a user-defined scale factor
+ */
+export type ARScalePreset = 'true-scale' | 'tabletop' | 'room' | 'custom'
+
+/**
+ * Maximum dimension (in meters) of the table-top preset
+ */
+export const AR_TABLETOP_DIMENSION_METERS = 0.3
+
+/**
+ * The user's AR scale choice
+ */
+export interface ARScaleSelection {
+	preset: ARScalePreset
+	/** Scale factor of the custom preset (e.g. 0.1 = 1:10) */
+	customScaleFactor?: number
+}
+
+export const DEFAULT_AR_SCALE: ARScaleSelection = { preset: 'room' }
+
+/**
+ * Calculates the AR display scaling for a user-selected scale preset.
+ * The table-top and room presets only scale down; true-scale and custom
+ * apply their factor regardless of the model size.
+ * 
+ * @param dimensions - The original model dimensions in meters
+ * @param selection - The selected preset
+ * @returns ARScalingResult with scaling factor and dimension information
+ */
+export function calculateARScalingForPreset(
+	dimensions: ModelDimensions,
+	selection: ARScaleSelection = DEFAULT_AR_SCALE
+): ARScalingResult {
+	switch (selection.preset) {
+		case 'tabletop':
+			return calculateARScaling(dimensions, AR_TABLETOP_DIMENSION_METERS)
+		case 'room':
+			return calculateARScaling(dimensions, AR_MAX_DIMENSION_METERS)
+		case 'true-scale':
+		case 'custom': {
+			const scaleFactor = selection.preset === 'custom' ? (selection.customScaleFactor ?? 1) : 1
+			const result = calculateARScaling(dimensions, Infinity)
+			return {
+				...result,
+				scaleFactor,
+				isScaled: scaleFactor !== 1,
+				scaledDimensions: {
+					width: dimensions.width * scaleFactor,
+					height: dimensions.height * scaleFactor,
+					depth: dimensions.depth * scaleFactor
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Returns the query parameters of /api/ar-glb and /api/ar-usdz for a scale preset
+ * 
+ * @param selection - The selected preset
+ * @returns Parameters to add to the request URL
+ */
+export function getARScaleParams(selection: ARScaleSelection = DEFAULT_AR_SCALE): Record<string, string> {
+	switch (selection.preset) {
+		case 'tabletop':
+			return { maxDimension: String(AR_TABLETOP_DIMENSION_METERS) }
+		case 'room':
+			return {}
+		case 'true-scale':
+			return { customScaleFactor: '1' }
+		case 'custom':
+			return { customScaleFactor: String(selection.customScaleFactor ?? 1) }
+	}
+}
+
+/**
+ * Builds the URL of a model converted by our AR endpoints (/api/ar-glb, /api/ar-usdz)
+ * 
+ * @param endpoint - The API endpoint
+ * @param glbUrl - URL of the original GLB file
+ * @param selection - The selected scale preset
+ * @param unit - Unit of the model, if known (otherwise detected by the server)
+ * @returns Absolute URL of the converted model
+ */
+export function getARModelUrl(
+	endpoint: '/api/ar-glb' | '/api/ar-usdz',
+	glbUrl: string,
+	selection: ARScaleSelection = DEFAULT_AR_SCALE,
+	unit?: string
+): string {
+	const apiUrl = new URL(endpoint, window.location.origin)
+	apiUrl.searchParams.set('url', glbUrl)
+	for (const [name, value] of Object.entries(getARScaleParams(selection))) {
+		apiUrl.searchParams.set(name, value)
+	}
+	if (unit) apiUrl.searchParams.set('unit', unit)
+	return apiUrl.toString()
+}
@@ -0,0 +1,135 @@
+/**
+ * Camera Utilities
+ *
+ * Animated camera moves for the ArcRotateCamera used by the viewer.
+ */
+
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+import type { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera'
+import type { Observer } from '@babylonjs/core/Misc/observable'
+import type { Scene } from '@babylonjs/core/scene'
+
+/**
+ * A camera view described in ArcRotateCamera terms
+ */
+export interface CameraView {
+	target: Vector3
+	radius: number
+	alpha: number
+	beta: number
+}
+
+// Running fly animation per camera, so a new fly cancels the previous one
+const activeFlights = new WeakMap<
+	ArcRotateCamera,
+	{ observer: Observer<Scene>; cancel: () => void }
+>()
+
+/**
+ * Smoothly animates an ArcRotateCamera to a new view.
+ * Alpha takes the shortest way around; radius and beta respect camera limits.
+ *
+ * @param camera - The camera to animate
+ * @param view - The view to fly to
+ * @param durationMs - Animation duration in milliseconds (default: 1000)
+ * @returns Promise that resolves when the animation ends or is cancelled
+ */
+export function flyTo(camera: ArcRotateCamera, view: CameraView, durationMs = 1000): Promise<void> {
+	cancelFlight(camera)
+
+	const scene = camera.getScene()
+	const start = {
+		target: camera.target.clone(),
+		radius: camera.radius,
+		alpha: camera.alpha,
+		beta: camera.beta
+	}
+	const end = {
+		target: view.target.clone(),
+		radius: clamp(view.radius, camera.lowerRadiusLimit, camera.upperRadiusLimit),
+		alpha: start.alpha + shortestAngle(start.alpha, view.alpha),
+		beta: clamp(view.beta, camera.lowerBetaLimit, camera.upperBetaLimit)
+	}
+
+	return new Promise((resolve) => {
+		const startTime = performance.now()
+
+		const finish = () => {
+			scene.onBeforeRenderObservable.remove(observer)
+			activeFlights.delete(camera)
+			resolve()
+		}
+
+		const observer = scene.onBeforeRenderObservable.add(() => {
+			const progress = Math.min(1, (performance.now() - startTime) / Math.max(1, durationMs))
+			const t = easeInOutCubic(progress)
+
+			camera.target = Vector3.Lerp(start.target, end.target, t)
+			camera.radius = start.radius + (end.radius - start.radius) * t
+			camera.alpha = start.alpha + (end.alpha - start.alpha) * t
+			camera.beta = start.beta + (end.beta - start.beta) * t
+
+			if (progress >= 1) finish()
+		})
+
+		activeFlights.set(camera, { observer, cancel: finish })
+	})
+}
+
+/**
+ * Stops a running fly animation, leaving the camera where it is
+ */
+export function cancelFlight(camera: ArcRotateCamera): void {
+	activeFlights.get(camera)?.cancel()
+}
+
+/**
+ * Calculates a view looking at a point from outside the model, i.e. from the
+ * direction pointing from the model center through the point.
+ *
+ * @param point - World position to look at
+ * @param modelCenter - World center of the model
+ * @param radius - Distance of the camera from the point
+ * @param fallbackAlpha - Alpha used when the point is at the model center
+ */
+export function getViewForPoint(
+	point: Vector3,
+	modelCenter: Vector3,
+	radius: number,
+	fallbackAlpha = Math.PI / 3
+): CameraView {
+	const direction = point.subtract(modelCenter)
+	const length = direction.length()
+
+	if (length < 1e-6) {
+		return { target: point.clone(), radius, alpha: fallbackAlpha, beta: Math.PI / 3 }
+	}
+
+	direction.scaleInPlace(1 / length)
+	return {
+		target: point.clone(),
+		radius,
+		alpha: Math.atan2(direction.z, direction.x),
+		// Stay away from the poles where the ArcRotateCamera flips
+		beta: clamp(Math.acos(direction.y), 0.2, Math.PI - 0.2)
+	}
+}
+
+function shortestAngle(from: number, to: number): number {
+	const twoPi = Math.PI * 2
+	let delta = (to - from) % twoPi
+	if (delta > Math.PI) delta -= twoPi
+	if (delta < -Math.PI) delta += twoPi
+	return delta
+}
+
+function clamp(value: number, min?: number | null, max?: number | null): number {
+	let result = value
+	if (min !== null && min !== undefined) result = Math.max(min, result)
+	if (max !== null && max !== undefined) result = Math.min(max, result)
+	return result
+}
+
+function easeInOutCubic(t: number): number {
+	return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
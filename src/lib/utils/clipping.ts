@@ -0,0 +1,146 @@
+/**
+ * Clipping State Utilities
+ *
+ * Describes the clipping planes and section box of the viewer independently
+ * of the model size, and encodes it for the shareable `clip` URL parameter.
+ *
+ * Plane positions are normalized to the model bounding box (0…1 per axis),
+ * so a cut looks the same for everyone whatever the unit of the model.
+ * The normal of a plane points to the side that is cut away.
+ *
+ * URL format (planes separated by "~"):
+ * - axis-aligned plane: `x0.42`, `-y0.3` (normal and position along its axis)
+ * - free plane: `n0.707_0_0.707_0.5_0.5_0.5` (normal, then point)
+ * - section box: `box0.1_0.1_0.1_0.9_0.9_0.9` (min, then max)
+ */
+
+export type Vector3Tuple = [number, number, number]
+
+export type ClipAxis = 'x' | 'y' | 'z'
+
+export interface ClipPlaneState {
+	/** Unit normal, pointing to the side that is cut away */
+	normal: Vector3Tuple
+	/** A point on the plane, normalized to the model bounds */
+	point: Vector3Tuple
+}
+
+export interface SectionBoxState {
+	/** Corners of the box, normalized to the model bounds */
+	min: Vector3Tuple
+	max: Vector3Tuple
+}
+
+export type ClippingState =
+	| { mode: 'planes'; planes: ClipPlaneState[] }
+	| { mode: 'box'; box: SectionBoxState }
+
+/** Number of clipping planes, the section box uses six */
+export const MAX_CLIP_PLANES = 3
+
+export const CLIP_AXES: ClipAxis[] = ['x', 'y', 'z']
+
+const PRECISION = 1000
+
+/**
+ * Returns the axis of an axis-aligned plane normal, with its direction
+ */
+export function getPlaneAxis(normal: Vector3Tuple): { axis: ClipAxis; sign: 1 | -1 } | null {
+	const index = normal.findIndex((value) => Math.abs(value) === 1)
+	if (index < 0 || normal.some((value, i) => i !== index && value !== 0)) return null
+	return { axis: CLIP_AXES[index], sign: normal[index] > 0 ? 1 : -1 }
+}
+
+/**
+ * Encodes a clipping state for the `clip` URL parameter
+ *
+ * @returns The encoded state, or null if nothing is clipped
+ */
+export function serializeClippingState(state: ClippingState | null): string | null {
+	if (!state) return null
+
+	if (state.mode === 'box') {
+		return `box${formatNumbers([...state.box.min, ...state.box.max])}`
+	}
+
+	if (state.planes.length === 0) return null
+
+	return state.planes
+		.map(({ normal, point }) => {
+			const axis = getPlaneAxis(normal)
+			if (axis) {
+				const index = CLIP_AXES.indexOf(axis.axis)
+				return `${axis.sign < 0 ? '-' : ''}${axis.axis}${formatNumbers([point[index]])}`
+			}
+			return `n${formatNumbers([...normal, ...point])}`
+		})
+		.join('~')
+}
+
+/**
+ * Parses the `clip` URL parameter
+ *
+ * @returns The clipping state, or null if the value is empty or invalid
+ */
+export function parseClippingState(value: string | null | undefined): ClippingState | null {
+	if (!value) return null
+
+	if (value.startsWith('box')) {
+		const numbers = parseNumbers(value.slice(3), 6)
+		if (!numbers) return null
+		const min = numbers.slice(0, 3) as Vector3Tuple
+		const max = numbers.slice(3) as Vector3Tuple
+		if (min.some((v, i) => v >= max[i])) return null
+		return { mode: 'box', box: { min, max } }
+	}
+
+	const planes: ClipPlaneState[] = []
+	for (const part of value.split('~')) {
+		const plane = parsePlane(part)
+		if (!plane) return null
+		planes.push(plane)
+	}
+	if (planes.length === 0 || planes.length > MAX_CLIP_PLANES) return null
+
+	return { mode: 'planes', planes }
+}
+
+function parsePlane(part: string): ClipPlaneState | null {
+	const axisMatch = /^(-?)([xyz])(.+)$/.exec(part)
+	if (axisMatch) {
+		const numbers = parseNumbers(axisMatch[3], 1)
+		if (!numbers) return null
+		const index = CLIP_AXES.indexOf(axisMatch[2] as ClipAxis)
+		const normal: Vector3Tuple = [0, 0, 0]
+		const point: Vector3Tuple = [0.5, 0.5, 0.5]
+		normal[index] = axisMatch[1] ? -1 : 1
+		point[index] = numbers[0]
+		return { normal, point }
+	}
+
+	if (part.startsWith('n')) {
+		const numbers = parseNumbers(part.slice(1), 6)
+		if (!numbers) return null
+		const normal = normalize(numbers.slice(0, 3) as Vector3Tuple)
+		if (!normal) return null
+		return { normal, point: numbers.slice(3) as Vector3Tuple }
+	}
+
+	return null
+}
+
+function parseNumbers(value: string, count: number): number[] | null {
+	const numbers = value.split('_').map(Number)
+	if (numbers.length !== count || numbers.some((n) => !Number.isFinite(n))) return null
+	return numbers
+}
+
+function formatNumbers(numbers: number[]): string {
+	return numbers.map((n) => Math.round(n * PRECISION) / PRECISION).join('_')
+}
+
+function normalize(vector: Vector3Tuple): Vector3Tuple | null {
+	const length = Math.hypot(...vector)
+	if (length === 0) return null
+	return vector.map((v) => v / length) as Vector3Tuple
+}
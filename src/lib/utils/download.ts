@@ -0,0 +1,25 @@
+/**
+ * Browser Downloads
+ *
+ * Saves generated files (annotation exports, captures) through a temporary
+ * object URL and link.
+ */
+
+// Revoking the object URL right after the click can cancel the download in
+// some browsers, so it is kept alive for a moment
+const REVOKE_DELAY_MS = 1000
+
+/**
+ * Starts a download of the blob under the given file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+	const url = URL.createObjectURL(blob)
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	// Firefox only follows links that are part of the document
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+	setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
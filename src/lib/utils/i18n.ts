@@ -0,0 +1,94 @@
+/**
+ * Language Utilities
+ *
+ * Helpers for choosing between texts in several languages, as found in
+ * multilingual IIIF annotation bodies and IIIF language maps
+ * (e.g. `{ "de": ["Vase"], "fr": ["Vase"] }`).
+ */
+
+/** IIIF language map: language code → values */
+export type LanguageMap = Record<string, string[]>
+
+/** Language key used by IIIF for values without a language */
+export const NO_LANGUAGE = 'none'
+
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i
+
+/**
+ * Checks whether a string is a BCP 47 style language tag (e.g. "de", "fr-CH")
+ */
+export function isValidLanguageTag(tag: string): boolean {
+	return LANGUAGE_TAG_PATTERN.test(tag)
+}
+
+/**
+ * Returns the primary language subtag in lower case ("de-AT" → "de")
+ */
+export function getPrimaryLanguage(tag: string): string {
+	return tag.split('-')[0].toLowerCase()
+}
+
+/**
+ * Returns the languages to prefer, most preferred first: an explicitly
+ * requested language, then the browser languages, then English.
+ */
+export function getPreferredLanguages(explicit?: string | null): string[] {
+	const languages: string[] = []
+	if (explicit && isValidLanguageTag(explicit)) {
+		languages.push(explicit)
+	}
+	if (typeof navigator !== 'undefined') {
+		languages.push(...(navigator.languages ?? [navigator.language]))
+	}
+	languages.push('en')
+	return [...new Set(languages.filter(Boolean))]
+}
+
+/**
+ * Picks the best matching language from the available ones.
+ * Exact matches win over matches of the primary subtag ("de-AT" matches "de").
+ * Falls back to values without a language, then to the first available one.
+ */
+export function pickLanguage(available: string[], preferred: string[]): string | undefined {
+	if (available.length === 0) return undefined
+
+	for (const language of preferred) {
+		const exact = available.find((a) => a.toLowerCase() === language.toLowerCase())
+		if (exact) return exact
+
+		const primary = getPrimaryLanguage(language)
+		const partial = available.find((a) => getPrimaryLanguage(a) === primary)
+		if (partial) return partial
+	}
+
+	return available.includes(NO_LANGUAGE) ? NO_LANGUAGE : available[0]
+}
+
+/**
+ * Returns the value of a IIIF language map in the best matching language,
+ * joining multiple values with line breaks
+ */
+export function getLanguageMapValue(
+	map: LanguageMap | string | undefined,
+	preferred: string[]
+): string | undefined {
+	if (!map) return undefined
+	if (typeof map === 'string') return map
+
+	const language = pickLanguage(Object.keys(map), preferred)
+	return language ? map[language]?.join('\n') : undefined
+}
+
+/**
+ * Returns a display name for a language code in that language itself,
+ * e.g. "de" → "Deutsch", "fr" → "français"
+ */
+export function getLanguageName(tag: string): string {
+	try {
+		const name = new Intl.DisplayNames([tag], { type: 'language' }).of(tag)
+		if (name) return name.charAt(0).toUpperCase() + name.slice(1)
+	} catch {
+		// Unknown or invalid tag, fall through
+	}
+	return tag.toUpperCase()
+}
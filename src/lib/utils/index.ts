@@ -1,3 +1,5 @@
+import { findAnnotationSources } from '../../services/xmlParser'
+
 export function formatDate(date?: string | number | Date) {
 	if (!date) return ''
 	const options = {
@@ -70,8 +72,16 @@ export function filterZenodoRecord(record: Record<string, any> | null) {
 	const usdzSize = usdzFile?.size
 
 	const bestThumbnail = findBestThumbnail(files)
+	const annotationSources = findAnnotationSources(files)
+
+	const { keywords, version, description, notes, additional_descriptions } = metadata || {}
 
-	const { keywords, version } = metadata || {}
+	// Free texts that may state the object's real-world size (see unitDetection)
+	const dimensionHints: string[] = [
+		description,
+		notes,
+		...(additional_descriptions ?? []).map((d: { description?: string }) => d.description)
+	].filter((text): text is string => typeof text === 'string' && text.length > 0)
 	const { downloads, views } = stats || {}
 	const { thumbnails } = links || {}
 
@@ -90,6 +100,8 @@ export function filterZenodoRecord(record: Record<string, any> | null) {
 		status,
 		thumbnails,
 		bestThumbnail,
+		annotationSources,
+		dimensionHints,
 		stats: {
 			downloads,
 			views
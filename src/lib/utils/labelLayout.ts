@@ -0,0 +1,444 @@
+/**
+ * Label Layout Utilities
+ *
+ * Converts annotation content (plain text, HTML or Markdown) into styled text
+ * runs and lays them out for drawing on a canvas: word wrapping, title line,
+ * line limit and a rounded background.
+ */
+
+import type { AnnotationContent } from '../types/annotations'
+
+export const LABEL_FONT_FAMILY = 'Arial, sans-serif'
+
+/** A piece of text with uniform styling */
+export interface TextRun {
+	text: string
+	bold?: boolean
+	italic?: boolean
+	code?: boolean
+	/** Title runs are drawn bold and slightly larger */
+	title?: boolean
+}
+
+/** A paragraph is a list of runs that wrap together */
+export type RichParagraph = TextRun[]
+
+export interface LabelLine {
+	runs: Array<TextRun & { width: number }>
+	width: number
+	height: number
+}
+
+export interface LabelLayout {
+	lines: LabelLine[]
+	/** Total size including padding, in pixels */
+	width: number
+	height: number
+	padding: number
+}
+
+export interface LabelLayoutOptions {
+	fontSize: number
+	maxWidth: number
+	padding: number
+	/** Line height as a factor of the font size (default: 1.3) */
+	lineHeight?: number
+	/** Lines beyond this limit are cut off with an ellipsis (default: 8) */
+	maxLines?: number
+}
+
+const TITLE_SCALE = 1.15
+const ELLIPSIS = '…'
+
+// Content conversion
+
+/**
+ * Converts annotation content into paragraphs of styled text, with the title
+ * (if any) as the first paragraph
+ */
+export function contentToParagraphs(content: AnnotationContent): RichParagraph[] {
+	let paragraphs: RichParagraph[]
+	switch (content.format) {
+		case 'html':
+			paragraphs = htmlToParagraphs(content.description)
+			break
+		case 'markdown':
+			paragraphs = markdownToParagraphs(content.description)
+			break
+		default:
+			paragraphs = content.description
+				.split(/\r?\n/)
+				.map((line) => [{ text: collapseWhitespace(line) }])
+	}
+
+	paragraphs = paragraphs.filter((paragraph) => paragraph.some((run) => run.text.trim()))
+
+	if (content.title?.trim()) {
+		paragraphs.unshift([{ text: collapseWhitespace(content.title), title: true }])
+	}
+	return paragraphs
+}
+
+/**
+ * Converts an HTML fragment into paragraphs. Inline emphasis (b, strong, i, em,
+ * code) is kept; block elements and <br> start new paragraphs and list items
+ * get a bullet. Everything else, including scripts and styles, is dropped.
+ */
+export function htmlToParagraphs(html: string): RichParagraph[] {
+	const paragraphs: RichParagraph[] = []
+	let current: RichParagraph = []
+	let bold = 0
+	let italic = 0
+	let code = 0
+	let skip = 0
+
+	const breakParagraph = () => {
+		if (current.length > 0) paragraphs.push(current)
+		current = []
+	}
+
+	for (const token of html.split(/(<[^>]*>)/)) {
+		const tag = token.match(/^<\s*(\/)?\s*([a-z0-9]+)[^>]*?(\/)?\s*>$/i)
+		if (!tag) {
+			if (skip > 0 || !token) continue
+			const text = collapseWhitespace(decodeEntities(token))
+			if (text.trim() || current.length > 0) {
+				current.push({ text, bold: bold > 0, italic: italic > 0, code: code > 0 })
+			}
+			continue
+		}
+
+		const isClosing = !!tag[1]
+		const name = tag[2].toLowerCase()
+		const step = isClosing ? -1 : tag[3] ? 0 : 1
+
+		switch (name) {
+			case 'script':
+			case 'style':
+				skip = Math.max(0, skip + step)
+				break
+			case 'b':
+			case 'strong':
+				bold = Math.max(0, bold + step)
+				break
+			case 'i':
+			case 'em':
+				italic = Math.max(0, italic + step)
+				break
+			case 'code':
+				code = Math.max(0, code + step)
+				break
+			case 'br':
+				breakParagraph()
+				break
+			case 'li':
+				breakParagraph()
+				if (!isClosing) current.push({ text: '• ' })
+				break
+			case 'h1':
+			case 'h2':
+			case 'h3':
+			case 'h4':
+			case 'h5':
+			case 'h6':
+				breakParagraph()
+				bold = Math.max(0, bold + step)
+				break
+			case 'p':
+			case 'div':
+			case 'ul':
+			case 'ol':
+			case 'blockquote':
+			case 'pre':
+				breakParagraph()
+				break
+		}
+	}
+
+	breakParagraph()
+	return paragraphs.map(trimParagraph)
+}
+
+/**
+ * Converts Markdown into paragraphs. Supports headings, list items, bold,
+ * italic, inline code and links (shown as their text).
+ */
+export function markdownToParagraphs(markdown: string): RichParagraph[] {
+	return markdown.split(/\r?\n/).map((line) => {
+		const heading = line.match(/^\s*#{1,6}\s+(.*)$/)
+		if (heading) {
+			return parseInlineMarkdown(heading[1]).map((run) => ({ ...run, bold: true }))
+		}
+
+		const bullet = line.match(/^\s*[-*+]\s+(.*)$/)
+		if (bullet) {
+			return [{ text: '• ' }, ...parseInlineMarkdown(bullet[1])]
+		}
+
+		const numbered = line.match(/^\s*(\d+)[.)]\s+(.*)$/)
+		if (numbered) {
+			return [{ text: `${numbered[1]}. ` }, ...parseInlineMarkdown(numbered[2])]
+		}
+
+		return parseInlineMarkdown(line)
+	})
+}
+
+function parseInlineMarkdown(text: string): TextRun[] {
+	const runs: TextRun[] = []
+	const pattern = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|`([^`]+)`|\[([^\]]+)\]\([^)]*\)/g
+	let lastIndex = 0
+
+	for (const match of text.matchAll(pattern)) {
+		if (match.index! > lastIndex) {
+			runs.push({ text: collapseWhitespace(text.slice(lastIndex, match.index)) })
+		}
+		if (match[2] !== undefined) {
+			runs.push({ text: collapseWhitespace(match[2]), bold: true })
+		} else if (match[4] !== undefined) {
+			runs.push({ text: collapseWhitespace(match[4]), italic: true })
+		} else if (match[5] !== undefined) {
+			runs.push({ text: match[5], code: true })
+		} else {
+			runs.push({ text: collapseWhitespace(match[6]) })
+		}
+		lastIndex = match.index! + match[0].length
+	}
+
+	if (lastIndex < text.length) {
+		runs.push({ text: collapseWhitespace(text.slice(lastIndex)) })
+	}
+	return trimParagraph(runs)
+}
+
+function collapseWhitespace(text: string): string {
+	return text.replace(/\s+/g, ' ')
+}
+
+function trimParagraph(paragraph: RichParagraph): RichParagraph {
+	if (paragraph.length === 0) return paragraph
+	const runs = paragraph.map((run) => ({ ...run }))
+	runs[0].text = runs[0].text.trimStart()
+	runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd()
+	return runs.filter((run) => run.text)
+}
+
+function decodeEntities(text: string): string {
+	const named: Record<string, string> = {
+		amp: '&',
+		lt: '<',
+		gt: '>',
+		quot: '"',
+		apos: "'",
+		nbsp: ' '
+	}
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const value =
+				code[1].toLowerCase() === 'x'
+					? parseInt(code.slice(2), 16)
+					: parseInt(code.slice(1), 10)
+			return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+		}
+		return named[code.toLowerCase()] ?? entity
+	})
+}
+
+// Layout
+
+/**
+ * Returns the CSS font for a run
+ */
+export function getRunFont(run: TextRun, fontSize: number): string {
+	const size = run.title ? Math.round(fontSize * TITLE_SCALE) : fontSize
+	const style = run.italic ? 'italic ' : ''
+	const weight = run.bold || run.title ? 'bold ' : ''
+	const family = run.code ? 'monospace' : LABEL_FONT_FAMILY
+	return `${style}${weight}${size}px ${family}`
+}
+
+/**
+ * Wraps paragraphs to the available width. The label shrinks to the widest
+ * line, so short labels stay small.
+ *
+ * @param context - Canvas context used to measure text
+ */
+export function layoutLabel(
+	context: CanvasRenderingContext2D,
+	paragraphs: RichParagraph[],
+	options: LabelLayoutOptions
+): LabelLayout {
+	const { fontSize, padding } = options
+	const lineHeight = options.lineHeight ?? 1.3
+	const maxLines = options.maxLines ?? 8
+	const contentWidth = Math.max(fontSize, options.maxWidth - padding * 2)
+
+	const measure = (text: string, run: TextRun) => {
+		context.font = getRunFont(run, fontSize)
+		return context.measureText(text).width
+	}
+
+	const lines: LabelLine[] = []
+	for (const paragraph of paragraphs) {
+		lines.push(...wrapParagraph(paragraph, contentWidth, measure, fontSize, lineHeight))
+	}
+
+	if (lines.length > maxLines) {
+		lines.length = maxLines
+		truncateLine(lines[maxLines - 1], contentWidth, measure)
+	}
+
+	const textWidth = Math.max(0, ...lines.map((line) => line.width))
+	const textHeight = lines.reduce((sum, line) => sum + line.height, 0)
+
+	return {
+		lines,
+		width: Math.ceil(textWidth + padding * 2),
+		height: Math.ceil(textHeight + padding * 2),
+		padding
+	}
+}
+
+function wrapParagraph(
+	paragraph: RichParagraph,
+	maxWidth: number,
+	measure: (text: string, run: TextRun) => number,
+	fontSize: number,
+	lineHeight: number
+): LabelLine[] {
+	const lines: LabelLine[] = []
+	let line: LabelLine = { runs: [], width: 0, height: 0 }
+
+	const pushLine = () => {
+		const last = line.runs[line.runs.length - 1]
+		if (last && !last.text.trim()) {
+			line.width -= last.width
+			line.runs.pop()
+		}
+		if (line.runs.length > 0) lines.push(line)
+		line = { runs: [], width: 0, height: 0 }
+	}
+
+	const append = (text: string, run: TextRun, width: number) => {
+		const size = run.title ? fontSize * TITLE_SCALE : fontSize
+		line.runs.push({ ...run, text, width })
+		line.width += width
+		line.height = Math.max(line.height, size * lineHeight)
+	}
+
+	for (const run of paragraph) {
+		for (const word of run.text.split(/(\s+)/)) {
+			if (!word) continue
+			const isSpace = !word.trim()
+			// Drop spaces at the start of a wrapped line
+			if (isSpace && line.runs.length === 0) continue
+
+			const width = measure(word, run)
+			if (line.width + width <= maxWidth || isSpace) {
+				append(word, run, width)
+				continue
+			}
+
+			if (line.runs.length > 0) pushLine()
+
+			if (width <= maxWidth) {
+				append(word, run, width)
+				continue
+			}
+
+			// Break words that do not fit on a line by themselves
+			let chunk = ''
+			for (const char of word) {
+				if (chunk && measure(chunk + char, run) > maxWidth) {
+					append(chunk, run, measure(chunk, run))
+					pushLine()
+					chunk = ''
+				}
+				chunk += char
+			}
+			if (chunk) append(chunk, run, measure(chunk, run))
+		}
+	}
+
+	pushLine()
+	return lines
+}
+
+function truncateLine(
+	line: LabelLine,
+	maxWidth: number,
+	measure: (text: string, run: TextRun) => number
+): void {
+	const last = line.runs[line.runs.length - 1]
+	if (!last) return
+
+	const ellipsisWidth = measure(ELLIPSIS, last)
+	while (line.width + ellipsisWidth > maxWidth && last.text.length > 0) {
+		last.text = last.text.slice(0, -1)
+		const width = measure(last.text, last)
+		line.width += width - last.width
+		last.width = width
+	}
+
+	last.text = last.text.trimEnd() + ELLIPSIS
+	const width = measure(last.text, last)
+	line.width += width - last.width
+	last.width = width
+}
+
+// Drawing
+
+export interface LabelColors {
+	backgroundColor: string
+	textColor: string
+}
+
+/**
+ * Draws a laid out label with a rounded background at the origin of the context
+ */
+export function drawLabel(
+	context: CanvasRenderingContext2D,
+	layout: LabelLayout,
+	fontSize: number,
+	colors: LabelColors,
+	borderRadius: number
+): void {
+	context.clearRect(0, 0, layout.width, layout.height)
+
+	context.fillStyle = colors.backgroundColor
+	fillRoundedRect(context, 0, 0, layout.width, layout.height, borderRadius)
+
+	context.fillStyle = colors.textColor
+	context.textBaseline = 'middle'
+
+	let y = layout.padding
+	for (const line of layout.lines) {
+		let x = layout.padding
+		for (const run of line.runs) {
+			context.font = getRunFont(run, fontSize)
+			context.fillText(run.text, x, y + line.height / 2)
+			x += run.width
+		}
+		y += line.height
+	}
+}
+
+function fillRoundedRect(
+	context: CanvasRenderingContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius: number
+): void {
+	const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+
+	context.beginPath()
+	context.moveTo(x + r, y)
+	context.arcTo(x + width, y, x + width, y + height, r)
+	context.arcTo(x + width, y + height, x, y + height, r)
+	context.arcTo(x, y + height, x, y, r)
+	context.arcTo(x, y, x + width, y, r)
+	context.closePath()
+	context.fill()
+}
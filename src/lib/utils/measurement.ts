@@ -0,0 +1,202 @@
+/**
+ * Measurement Utilities
+ *
+ * Geometry and formatting for the measurement tools: point-to-point
+ * distance, polyline length, angle and surface area.
+ *
+ * Measurement points are kept in model space (the coordinate system of the
+ * glTF root, in model units), so results do not change when the model is
+ * displayed scaled, e.g. in AR. They are converted to meters with the
+ * detected unit of the model (see unitDetection).
+ */
+
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+import type { Annotation3D, PolygonAnnotation3D } from '../types/annotations'
+import { DEFAULT_ANNOTATION_STYLE } from '../types/annotations'
+import { polygonCentroid, triangulatePolygon } from './polygon'
+
+export type MeasurementType = 'distance' | 'polyline' | 'angle' | 'area'
+
+export interface Measurement {
+	id: string
+	type: MeasurementType
+	/** Picked points in model space (model units) */
+	points: Vector3[]
+}
+
+/** Number of points that completes a measurement, null for open-ended ones */
+export const MEASUREMENT_POINT_COUNT: Record<MeasurementType, number | null> = {
+	distance: 2,
+	polyline: null,
+	angle: 3,
+	area: null
+}
+
+/** Minimum number of points of a complete measurement */
+export const MEASUREMENT_MIN_POINTS: Record<MeasurementType, number> = {
+	distance: 2,
+	polyline: 2,
+	angle: 3,
+	area: 3
+}
+
+export const MEASUREMENT_LABELS: Record<MeasurementType, string> = {
+	distance: 'Distance',
+	polyline: 'Length',
+	angle: 'Angle',
+	area: 'Area'
+}
+
+/**
+ * Total length of a polyline through the points
+ */
+export function polylineLength(points: Vector3[]): number {
+	let length = 0
+	for (let i = 1; i < points.length; i++) {
+		length += Vector3.Distance(points[i - 1], points[i])
+	}
+	return length
+}
+
+/**
+ * Angle at the vertex between the rays to a and b, in degrees
+ */
+export function angleAt(a: Vector3, vertex: Vector3, b: Vector3): number {
+	const u = a.subtract(vertex)
+	const v = b.subtract(vertex)
+	const lengths = u.length() * v.length()
+	if (lengths === 0) return 0
+
+	const cosine = Math.min(1, Math.max(-1, Vector3.Dot(u, v) / lengths))
+	return (Math.acos(cosine) * 180) / Math.PI
+}
+
+/**
+ * Area of the (nearly planar) polygon through the points, as the sum of the
+ * areas of its triangulation
+ */
+export function polygonArea(points: Vector3[]): number {
+	const indices = triangulatePolygon(points)
+	let area = 0
+	for (let i = 0; i < indices.length; i += 3) {
+		const a = points[indices[i]]
+		const ab = points[indices[i + 1]].subtract(a)
+		const ac = points[indices[i + 2]].subtract(a)
+		area += Vector3.Cross(ab, ac).length() / 2
+	}
+	return area
+}
+
+/**
+ * Result of a measurement in meters, square meters or degrees
+ *
+ * @param measurement - The measurement
+ * @param metersPerUnit - Meters per model unit
+ */
+export function getMeasurementValue(measurement: Measurement, metersPerUnit: number): number {
+	const { points } = measurement
+	switch (measurement.type) {
+		case 'distance':
+		case 'polyline':
+			return polylineLength(points) * metersPerUnit
+		case 'angle':
+			return points.length >= 3 ? angleAt(points[0], points[1], points[2]) : 0
+		case 'area':
+			return points.length >= 3 ? polygonArea(points) * metersPerUnit * metersPerUnit : 0
+	}
+}
+
+/**
+ * Formats a length for display with an appropriate metric unit
+ *
+ * @param meters - The length in meters
+ * @returns Formatted string (e.g., "1.25m", "12.3cm", "4.2mm")
+ */
+export function formatLength(meters: number): string {
+	if (meters >= 1) {
+		return `${meters.toFixed(2)}m`
+	}
+	if (meters >= 0.01) {
+		return `${(meters * 100).toFixed(1)}cm`
+	}
+	return `${(meters * 1000).toFixed(1)}mm`
+}
+
+/**
+ * Formats an area for display with an appropriate metric unit
+ *
+ * @param squareMeters - The area in square meters
+ * @returns Formatted string (e.g., "1.25m²", "12.3cm²", "4.2mm²")
+ */
+export function formatArea(squareMeters: number): string {
+	if (squareMeters >= 1) {
+		return `${squareMeters.toFixed(2)}m²`
+	}
+	if (squareMeters >= 1e-4) {
+		return `${(squareMeters * 1e4).toFixed(1)}cm²`
+	}
+	return `${(squareMeters * 1e6).toFixed(1)}mm²`
+}
+
+/**
+ * Formats the result of a measurement for display
+ *
+ * @param measurement - The measurement
+ * @param metersPerUnit - Meters per model unit
+ * @returns Formatted string (e.g., "12.3cm", "87.5°", "4.2cm²")
+ */
+export function formatMeasurement(measurement: Measurement, metersPerUnit: number): string {
+	const value = getMeasurementValue(measurement, metersPerUnit)
+	switch (measurement.type) {
+		case 'angle':
+			return `${value.toFixed(1)}°`
+		case 'area':
+			return formatArea(value)
+		default:
+			return formatLength(value)
+	}
+}
+
+/**
+ * Creates a line (or, for areas, polygon) annotation for a measurement, with
+ * the result as its title
+ *
+ * @param measurement - The measurement
+ * @param metersPerUnit - Meters per model unit
+ * @param toWorld - Converts a model space point to the world space of annotations
+ */
+export function measurementToAnnotation(
+	measurement: Measurement,
+	metersPerUnit: number,
+	toWorld: (point: Vector3) => Vector3
+): Annotation3D {
+	const vertices = measurement.points.map(toWorld)
+	const result = formatMeasurement(measurement, metersPerUnit)
+	const label = MEASUREMENT_LABELS[measurement.type]
+	const details =
+		measurement.type === 'polyline' ? ` over ${measurement.points.length - 1} segments` : ''
+
+	const annotation: PolygonAnnotation3D = {
+		id: `urn:uuid:${crypto.randomUUID()}`,
+		type: 'polygon',
+		// The vertex of an angle is where its marker belongs
+		position: measurement.type === 'angle' ? vertices[1].clone() : polygonCentroid(vertices),
+		vertices,
+		closed: measurement.type === 'area',
+		content: {
+			title: `${label}: ${result}`,
+			description: `${label} measured in the viewer: ${result}${details}`,
+			format: 'text',
+			created: new Date()
+		},
+		visibility: true,
+		interactive: true,
+		style: { ...DEFAULT_ANNOTATION_STYLE },
+		metadata: {
+			source: 'measurement',
+			category: 'technical',
+			tags: ['measurement']
+		}
+	}
+	return annotation
+}
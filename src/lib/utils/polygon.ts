@@ -0,0 +1,253 @@
+/**
+ * 3D Polygon Utilities
+ *
+ * Helpers for working with planar (or nearly planar) polygons in 3D space,
+ * as produced by WKT polygon annotations.
+ */
+
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+
+/**
+ * Calculates the centroid (average of all vertices) of a polygon
+ */
+export function polygonCentroid(vertices: Vector3[]): Vector3 {
+	const centroid = Vector3.Zero()
+	if (vertices.length === 0) return centroid
+
+	for (const vertex of vertices) {
+		centroid.addInPlace(vertex)
+	}
+	return centroid.scaleInPlace(1 / vertices.length)
+}
+
+/**
+ * Calculates the normal of a polygon using Newell's method.
+ * Works for non-convex and slightly non-planar polygons.
+ *
+ * @returns The normalized polygon normal, or Vector3.Up() for degenerate polygons
+ */
+export function polygonNormal(vertices: Vector3[]): Vector3 {
+	const normal = Vector3.Zero()
+
+	for (let i = 0; i < vertices.length; i++) {
+		const current = vertices[i]
+		const next = vertices[(i + 1) % vertices.length]
+		normal.x += (current.y - next.y) * (current.z + next.z)
+		normal.y += (current.z - next.z) * (current.x + next.x)
+		normal.z += (current.x - next.x) * (current.y + next.y)
+	}
+
+	if (normal.lengthSquared() === 0) return Vector3.Up()
+	return normal.normalize()
+}
+
+/**
+ * Triangulates a simple polygon using ear clipping on its best-fit plane.
+ * Holes are joined to the outer ring by bridge edges before clipping.
+ *
+ * @param vertices - Polygon vertices in order, without a closing duplicate
+ * @param holes - Inner rings, in the plane of the polygon
+ * @returns Triangle indices into the vertices followed by the hole vertices (3 per triangle)
+ */
+export function triangulatePolygon(vertices: Vector3[], holes: Vector3[][] = []): number[] {
+	if (vertices.length < 3) return []
+
+	const points = projectToPlane(vertices, [vertices, ...holes].flat())
+	const indices: number[] = []
+
+	// Ear clipping expects counter-clockwise winding
+	let remaining = vertices.map((_, i) => i)
+	if (ringArea(points, remaining) < 0) remaining.reverse()
+
+	let offset = vertices.length
+	const holeRings: number[][] = []
+	for (const hole of holes) {
+		const ring = hole.map((_, i) => offset + i)
+		offset += hole.length
+		if (ring.length < 3) continue
+		// Holes are walked clockwise, opposite to the outer ring
+		if (ringArea(points, ring) > 0) ring.reverse()
+		holeRings.push(ring)
+	}
+	// Bridge the holes from right to left, so earlier bridges do not cross later ones
+	holeRings.sort((a, b) => maxX(points, b) - maxX(points, a))
+	for (const ring of holeRings) {
+		remaining = bridgeHole(points, remaining, ring)
+	}
+
+	let guard = remaining.length * remaining.length
+	while (remaining.length > 3 && guard-- > 0) {
+		let earFound = false
+
+		for (let i = 0; i < remaining.length; i++) {
+			const prev = remaining[(i + remaining.length - 1) % remaining.length]
+			const current = remaining[i]
+			const next = remaining[(i + 1) % remaining.length]
+
+			if (!isEar(points, remaining, prev, current, next)) continue
+
+			indices.push(prev, current, next)
+			remaining.splice(i, 1)
+			earFound = true
+			break
+		}
+
+		// Self-intersecting input: fall back to a fan over what is left
+		if (!earFound) break
+	}
+
+	for (let i = 1; i < remaining.length - 1; i++) {
+		indices.push(remaining[0], remaining[i], remaining[i + 1])
+	}
+
+	return indices
+}
+
+/**
+ * Projects 3D points onto 2D coordinates in the plane of a polygon
+ *
+ * @param vertices - Polygon that defines the plane
+ * @param points - Points to project (default: the polygon's vertices)
+ */
+function projectToPlane(
+	vertices: Vector3[],
+	points: Vector3[] = vertices
+): Array<[number, number]> {
+	const normal = polygonNormal(vertices)
+	const reference = Math.abs(normal.y) < 0.9 ? Vector3.Up() : Vector3.Right()
+	const uAxis = Vector3.Cross(reference, normal).normalize()
+	const vAxis = Vector3.Cross(normal, uAxis)
+
+	return points.map((point) => [Vector3.Dot(point, uAxis), Vector3.Dot(point, vAxis)])
+}
+
+function ringArea(points: Array<[number, number]>, ring: number[]): number {
+	let area = 0
+	for (let i = 0; i < ring.length; i++) {
+		const [x1, y1] = points[ring[i]]
+		const [x2, y2] = points[ring[(i + 1) % ring.length]]
+		area += x1 * y2 - x2 * y1
+	}
+	return area / 2
+}
+
+function maxX(points: Array<[number, number]>, ring: number[]): number {
+	return Math.max(...ring.map((index) => points[index][0]))
+}
+
+/**
+ * Joins a hole into the outer ring with a pair of bridge edges between the
+ * hole's rightmost vertex and the nearest ring vertex it can see
+ */
+function bridgeHole(points: Array<[number, number]>, outer: number[], hole: number[]): number[] {
+	const start = hole.reduce(
+		(best, index, i) => (points[index][0] > points[hole[best]][0] ? i : best),
+		0
+	)
+	const m = points[hole[start]]
+
+	// Vertices right of the hole vertex: the bridge cannot cross holes bridged later
+	const candidates = outer
+		.map((_, i) => i)
+		.filter((i) => points[outer[i]][0] >= m[0])
+		.sort((a, b) => distanceSquared(m, points[outer[a]]) - distanceSquared(m, points[outer[b]]))
+
+	const bridge = candidates.find(
+		(i) =>
+			opensTowards(points, outer, i, m) &&
+			isVisible(points, [outer, hole], outer[i], hole[start])
+	)
+	if (bridge === undefined) return outer
+
+	const holeLoop = [...hole.slice(start), ...hole.slice(0, start), hole[start]]
+	return [...outer.slice(0, bridge + 1), ...holeLoop, ...outer.slice(bridge)]
+}
+
+function distanceSquared(a: [number, number], b: [number, number]): number {
+	return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2
+}
+
+/**
+ * Whether a point lies inside the interior angle of a counter-clockwise ring at
+ * one of its positions (bridged rings repeat vertices, so position matters)
+ */
+function opensTowards(
+	points: Array<[number, number]>,
+	ring: number[],
+	position: number,
+	target: [number, number]
+): boolean {
+	const prev = points[ring[(position + ring.length - 1) % ring.length]]
+	const current = points[ring[position]]
+	const next = points[ring[(position + 1) % ring.length]]
+
+	const leftOfIncoming = cross(prev, current, target) > 0
+	const leftOfOutgoing = cross(current, next, target) > 0
+	return cross(prev, current, next) >= 0
+		? leftOfIncoming && leftOfOutgoing
+		: leftOfIncoming || leftOfOutgoing
+}
+
+/**
+ * Whether the segment between two vertices crosses no edge and passes
+ * through no vertex of the given rings
+ */
+function isVisible(
+	points: Array<[number, number]>,
+	rings: number[][],
+	from: number,
+	to: number
+): boolean {
+	const a = points[from]
+	const b = points[to]
+	for (const ring of rings) {
+		for (let i = 0; i < ring.length; i++) {
+			const start = ring[i]
+			const end = ring[(i + 1) % ring.length]
+			if (start !== from && start !== to && isOnSegment(points[start], a, b)) return false
+			if (start === from || start === to || end === from || end === to) continue
+
+			const p = points[start]
+			const q = points[end]
+			if (cross(a, b, p) * cross(a, b, q) < 0 && cross(p, q, a) * cross(p, q, b) < 0) {
+				return false
+			}
+		}
+	}
+	return true
+}
+
+function isOnSegment(p: [number, number], a: [number, number], b: [number, number]): boolean {
+	if (cross(a, b, p) !== 0) return false
+	const t = (p[0] - a[0]) * (b[0] - a[0]) + (p[1] - a[1]) * (b[1] - a[1])
+	return t > 0 && t < distanceSquared(a, b)
+}
+
+function cross(o: [number, number], a: [number, number], b: [number, number]): number {
+	return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+}
+
+function isEar(
+	points: Array<[number, number]>,
+	remaining: number[],
+	prev: number,
+	current: number,
+	next: number
+): boolean {
+	const a = points[prev]
+	const b = points[current]
+	const c = points[next]
+
+	// Reflex vertices cannot be ears
+	if (cross(a, b, c) <= 0) return false
+
+	for (const index of remaining) {
+		if (index === prev || index === current || index === next) continue
+		const p = points[index]
+		if (cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0) {
+			return false
+		}
+	}
+
+	return true
+}
@@ -0,0 +1,307 @@
+/**
+ * Unit Detection Utilities
+ *
+ * The glTF spec says 1 unit = 1 meter, but many scans are exported in
+ * millimetres or centimetres: a 30 cm bust in millimetres has a bounding box
+ * of 300 "meters". These heuristics guess the unit a model was authored in,
+ * from (strongest first):
+ *
+ * 1. an explicit override (e.g. `?unit=mm`)
+ * 2. hints in the model itself (`extras` or KHR_xmp_json_ld metadata)
+ * 3. real-world measurements from the record metadata (METS/MODS, Zenodo)
+ * 4. the magnitude of the bounding box
+ *
+ * Used on the client (ModelDimensions) and the server (scaleGlbForAR).
+ */
+
+import type { ModelDimensions } from './arScaling'
+
+export type LengthUnit = 'mm' | 'cm' | 'dm' | 'm' | 'in' | 'ft'
+export type UnitSource = 'override' | 'model' | 'metadata' | 'bounds'
+export type DetectionConfidence = 'high' | 'medium' | 'low'
+
+/** Meters per unit */
+export const UNIT_TO_METERS: Record<LengthUnit, number> = {
+	mm: 0.001,
+	cm: 0.01,
+	dm: 0.1,
+	m: 1,
+	in: 0.0254,
+	ft: 0.3048
+}
+
+export interface UnitDetection {
+	unit: LengthUnit
+	metersPerUnit: number
+	confidence: DetectionConfidence
+	source: UnitSource
+	/** Short explanation, for logs and tooltips */
+	reason: string
+}
+
+export interface UnitHints {
+	/** Explicitly requested unit; wins over everything else */
+	override?: string | null
+	/** Unit found in the model file (see getUnitHintFromGltf) */
+	modelUnit?: LengthUnit | null
+	/** Real-world sizes of the object in meters, e.g. from parseMeasurements */
+	measurements?: number[]
+}
+
+const UNIT_ALIASES: Record<string, LengthUnit> = {
+	mm: 'mm',
+	millimeter: 'mm',
+	millimetre: 'mm',
+	millimeters: 'mm',
+	millimetres: 'mm',
+	cm: 'cm',
+	centimeter: 'cm',
+	centimetre: 'cm',
+	centimeters: 'cm',
+	centimetres: 'cm',
+	zentimeter: 'cm',
+	dm: 'dm',
+	decimeter: 'dm',
+	decimetre: 'dm',
+	m: 'm',
+	meter: 'm',
+	metre: 'm',
+	meters: 'm',
+	metres: 'm',
+	in: 'in',
+	inch: 'in',
+	inches: 'in',
+	ft: 'ft',
+	foot: 'ft',
+	feet: 'ft'
+}
+
+/**
+ * Parses a unit name or symbol ("mm", "Millimeter", "inches") to a LengthUnit
+ */
+export function parseLengthUnit(value: string | null | undefined): LengthUnit | null {
+	if (!value) return null
+	return UNIT_ALIASES[value.trim().toLowerCase()] ?? null
+}
+
+/**
+ * Returns the unit whose size in meters is closest to the given factor
+ */
+function unitForMetersPerUnit(metersPerUnit: number): LengthUnit | null {
+	if (!(metersPerUnit > 0)) return null
+
+	let best: LengthUnit | null = null
+	let bestDistance = Infinity
+	for (const [unit, meters] of Object.entries(UNIT_TO_METERS) as [LengthUnit, number][]) {
+		const distance = Math.abs(Math.log(metersPerUnit / meters))
+		if (distance < bestDistance) {
+			best = unit
+			bestDistance = distance
+		}
+	}
+	// Only accept (nearly) exact matches, e.g. 0.001 but not 0.005
+	return bestDistance < 0.01 ? best : null
+}
+
+const EXTRAS_UNIT_KEYS = ['unit', 'units', 'lengthUnit', 'lengthUnits', 'unitOfMeasure']
+const EXTRAS_SCALE_KEYS = ['metersPerUnit', 'unitScale', 'scaleToMeters']
+
+function getUnitFromObject(value: unknown): LengthUnit | null {
+	if (!value || typeof value !== 'object') return null
+	const record = value as Record<string, unknown>
+
+	for (const [key, entry] of Object.entries(record)) {
+		// Keys may be namespaced in XMP, e.g. "model:unit"
+		const name = key.split(':').pop()!
+		if (EXTRAS_UNIT_KEYS.some((k) => k.toLowerCase() === name.toLowerCase())) {
+			const unit = typeof entry === 'string' ? parseLengthUnit(entry) : null
+			if (unit) return unit
+		}
+		if (EXTRAS_SCALE_KEYS.some((k) => k.toLowerCase() === name.toLowerCase())) {
+			const unit = unitForMetersPerUnit(Number(entry))
+			if (unit) return unit
+		}
+	}
+	return null
+}
+
+/**
+ * Looks for a unit hint in a glTF JSON document: `extras` of the asset,
+ * the scenes and their root nodes, and KHR_xmp_json_ld metadata packets.
+ * Recognized keys: unit, units, lengthUnit, unitOfMeasure (e.g. "mm") and
+ * metersPerUnit, unitScale (e.g. 0.001).
+ */
+export function getUnitHintFromGltf(json: unknown): LengthUnit | null {
+	if (!json || typeof json !== 'object') return null
+	const gltf = json as {
+		asset?: { extras?: unknown }
+		extras?: unknown
+		scenes?: { extras?: unknown; nodes?: number[] }[]
+		nodes?: { extras?: unknown }[]
+		extensions?: {
+			KHR_xmp_json_ld?: { packets?: unknown[] }
+			KHR_xmp?: { packets?: unknown[] }
+		}
+	}
+
+	const candidates: unknown[] = [gltf.asset?.extras, gltf.extras]
+	for (const scene of gltf.scenes ?? []) {
+		candidates.push(scene.extras)
+		for (const index of scene.nodes ?? []) {
+			candidates.push(gltf.nodes?.[index]?.extras)
+		}
+	}
+	candidates.push(
+		...(gltf.extensions?.KHR_xmp_json_ld?.packets ?? []),
+		...(gltf.extensions?.KHR_xmp?.packets ?? [])
+	)
+
+	for (const candidate of candidates) {
+		const unit = getUnitFromObject(candidate)
+		if (unit) return unit
+	}
+	return null
+}
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)?)`
+const UNIT = String.raw`(mm|cm|dm|m|in|ft|millimet(?:er|re)s?|centimet(?:er|re)s?|zentimeter|met(?:er|re)s?|inch(?:es)?|feet|foot)`
+// "30 x 20 x 15 cm", "30 × 20 cm"
+const DIMENSION_LIST_PATTERN = new RegExp(
+	String.raw`${NUMBER}(?:\s*${UNIT})?(?:\s*[x×]\s*${NUMBER}(?:\s*${UNIT})?){1,2}\s*${UNIT}\b`,
+	'gi'
+)
+// "height: 30 cm", "Höhe 1,2 m", "H. 30cm", "diameter 12 in". The label is
+// delimited by letter lookarounds, \b does not treat umlauts or ß as letters.
+const LABELLED_MEASUREMENT_PATTERN = new RegExp(
+	String.raw`(?<!\p{L})(?:height|width|depth|length|diameter|size|dimensions?|h|w|d|l|höhe|breite|tiefe|länge|durchmesser|maße|größe)(?!\p{L})\.?\s*[:=]?\s*(?:ca\.?|approx\.?|c\.)?\s*${NUMBER}\s*${UNIT}\b`,
+	'giu'
+)
+
+function toMeters(value: string, unit: string): number | null {
+	const lengthUnit = parseLengthUnit(unit)
+	const number = parseFloat(value.replace(',', '.'))
+	return lengthUnit && number > 0 ? number * UNIT_TO_METERS[lengthUnit] : null
+}
+
+/**
+ * Extracts real-world measurements (in meters) from a metadata text, e.g. a
+ * MODS extent ("30 x 20 x 15 cm") or a Zenodo description ("Height: 1.2 m").
+ * Only dimension lists and labelled measurements are used, so unrelated
+ * numbers like a scan resolution ("0.1 mm accuracy") are ignored.
+ */
+export function parseMeasurements(text: string | null | undefined): number[] {
+	if (!text) return []
+	// Strip HTML tags of rich-text descriptions
+	const plain = text.replace(/<[^>]+>/g, ' ')
+	const measurements: number[] = []
+
+	for (const match of plain.matchAll(DIMENSION_LIST_PATTERN)) {
+		const unit = match[match.length - 1]
+		const values = match[0].match(/\d+(?:[.,]\d+)?/g) ?? []
+		for (const value of values) {
+			const meters = toMeters(value, unit)
+			if (meters) measurements.push(meters)
+		}
+	}
+
+	for (const match of plain.matchAll(LABELLED_MEASUREMENT_PATTERN)) {
+		const meters = toMeters(match[1], match[2])
+		if (meters) measurements.push(meters)
+	}
+
+	return measurements
+}
+
+/**
+ * Detects the unit of a model from its raw bounding box dimensions and hints
+ *
+ * @param dimensions - Bounding box size in model units
+ * @param hints - Override, model and metadata hints
+ */
+export function detectModelUnit(dimensions: ModelDimensions, hints: UnitHints = {}): UnitDetection {
+	const result = (
+		unit: LengthUnit,
+		confidence: DetectionConfidence,
+		source: UnitSource,
+		reason: string
+	): UnitDetection => ({ unit, metersPerUnit: UNIT_TO_METERS[unit], confidence, source, reason })
+
+	const override = parseLengthUnit(hints.override)
+	if (override) {
+		return result(override, 'high', 'override', `Unit set explicitly to ${override}`)
+	}
+
+	if (hints.modelUnit) {
+		return result(
+			hints.modelUnit,
+			'high',
+			'model',
+			`Unit ${hints.modelUnit} found in model metadata`
+		)
+	}
+
+	const largest = Math.max(dimensions.width, dimensions.height, dimensions.depth)
+	if (!(largest > 0)) {
+		return result('m', 'low', 'bounds', 'Model has no extent, assuming meters')
+	}
+
+	// Compare with the largest measurement: that is most likely the overall size
+	const measurements = (hints.measurements ?? []).filter((m) => m > 0)
+	if (measurements.length > 0) {
+		const measured = Math.max(...measurements)
+		let best: LengthUnit = 'm'
+		let bestRatio = Infinity
+		for (const [unit, meters] of Object.entries(UNIT_TO_METERS) as [LengthUnit, number][]) {
+			const ratio = Math.exp(Math.abs(Math.log((largest * meters) / measured)))
+			if (ratio < bestRatio) {
+				best = unit
+				bestRatio = ratio
+			}
+		}
+
+		// Within 25%: the model matches the documented size well. Within a factor
+		// of two it's still the best guess (e.g. a measurement without the base).
+		if (bestRatio <= 2) {
+			return result(
+				best,
+				bestRatio <= 1.25 ? 'high' : 'medium',
+				'metadata',
+				`Model size matches documented size of ${formatMeters(measured)} in ${best}`
+			)
+		}
+	}
+
+	// Plausible object sizes in meters: from a coin to a large building
+	if (largest <= 100) {
+		return largest >= 0.02
+			? result('m', 'medium', 'bounds', 'Model size is plausible in meters')
+			: result('m', 'low', 'bounds', 'Model is very small, assuming meters')
+	}
+
+	// Larger than 100 "meters": most likely millimetres (a 30 cm bust → 300 units).
+	// Up to 1000 it could still be a large site in meters.
+	return result(
+		'mm',
+		largest > 1000 ? 'medium' : 'low',
+		'bounds',
+		`Model size of ${Math.round(largest)} units is implausible in meters, assuming millimetres`
+	)
+}
+
+/**
+ * Converts dimensions in model units to meters
+ */
+export function toMeterDimensions(
+	dimensions: ModelDimensions,
+	metersPerUnit: number
+): ModelDimensions {
+	return {
+		width: dimensions.width * metersPerUnit,
+		height: dimensions.height * metersPerUnit,
+		depth: dimensions.depth * metersPerUnit
+	}
+}
+
+function formatMeters(value: number): string {
+	return value >= 1 ? `${value.toFixed(2)} m` : `${(value * 100).toFixed(1)} cm`
+}
@@ -8,8 +8,11 @@
  * AR Quick Look (USDZ) instead.
  */
 
+import '@babylonjs/core/XR/features/WebXRDOMOverlay'
+
 import type { Scene } from '@babylonjs/core/scene'
 import { WebXRSessionManager } from '@babylonjs/core/XR/webXRSessionManager'
+import { WebXRFeatureName } from '@babylonjs/core/XR/webXRFeaturesManager'
 import type { WebXRDefaultExperience } from '@babylonjs/core/XR/webXRDefaultExperience'
 
 /**
@@ -95,19 +98,31 @@ export async function detectWebXRSupport(): Promise<WebXRSupport> {
  * @returns true if WebXR AR is supported
  */
 export async function isWebXRARSupported(): Promise<boolean> {
+	return isWebXRSessionSupported('immersive-ar')
+}
+
+/**
+ * Checks if the current device/browser supports a WebXR session mode
+ * 
+ * @param sessionMode - The session mode to check
+ * @returns true if the session mode is supported
+ */
+export async function isWebXRSessionSupported(sessionMode: XRSessionMode): Promise<boolean> {
 	if (!navigator.xr) {
 		return false
 	}
 
 	try {
-		return await WebXRSessionManager.IsSessionSupportedAsync('immersive-ar')
+		return await WebXRSessionManager.IsSessionSupportedAsync(sessionMode)
 	} catch {
 		return false
 	}
 }
 
 /**
- * Creates a WebXR experience for AR on a Babylon.js scene
+ * Creates a WebXR experience on a Babylon.js scene. The same experience can
+ * enter immersive AR and VR sessions (see enterXRAsync); its default UI uses
+ * AR where available.
  * 
  * @param scene - The Babylon.js scene
  * @param options - Optional configuration for the WebXR experience
@@ -119,16 +134,20 @@ export async function createWebXRExperience(
 		enableHitTest?: boolean
 		enableAnchors?: boolean
 		enableDomOverlay?: boolean
-		domOverlayElement?: string
+		/** Root element (or selector) of the DOM overlay shown during the session */
+		domOverlayElement?: string | Element
 	}
 ): Promise<WebXRDefaultExperience | null> {
 	const { enableHitTest = true, enableAnchors = true, enableDomOverlay = false, domOverlayElement } = options || {}
 
 	try {
-		// Check if WebXR AR is supported
-		const supported = await isWebXRARSupported()
-		if (!supported) {
-			console.log('WebXR AR is not supported on this device/browser')
+		// Check if WebXR AR or VR is supported
+		const [supportsAR, supportsVR] = await Promise.all([
+			isWebXRSessionSupported('immersive-ar'),
+			isWebXRSessionSupported('immersive-vr')
+		])
+		if (!supportsAR && !supportsVR) {
+			console.log('WebXR AR and VR are not supported on this device/browser')
 			return null
 		}
 
@@ -136,18 +155,33 @@ export async function createWebXRExperience(
 		const optionalFeatures: string[] = []
 		if (enableHitTest) optionalFeatures.push('hit-test')
 		if (enableAnchors) optionalFeatures.push('anchors')
-		if (enableDomOverlay && domOverlayElement) optionalFeatures.push('dom-overlay')
 
 		// Create the WebXR experience
 		const xr = await scene.createDefaultXRExperienceAsync({
 			uiOptions: {
-				sessionMode: 'immersive-ar',
+				sessionMode: supportsAR ? 'immersive-ar' : 'immersive-vr',
 				referenceSpaceType: 'local-floor'
 			},
 			optionalFeatures: optionalFeatures.length > 0 ? optionalFeatures : true
 		})
 
-		console.log('WebXR AR experience created successfully')
+		// The DOM overlay feature adds 'dom-overlay' and its root element to the session init.
+		// It is optional, so headsets without DOM overlays can still start VR sessions.
+		if (enableDomOverlay && domOverlayElement) {
+			try {
+				xr.baseExperience.featuresManager.enableFeature(
+					WebXRFeatureName.DOM_OVERLAY,
+					'latest',
+					{ element: domOverlayElement },
+					true,
+					false
+				)
+			} catch (error) {
+				console.warn('WebXR DOM overlay is not available:', error)
+			}
+		}
+
+		console.log(`WebXR experience created successfully (AR: ${supportsAR}, VR: ${supportsVR})`)
 		return xr
 	} catch (error) {
 		console.error('Failed to create WebXR experience:', error)
@@ -175,7 +209,7 @@ export function getWebXRSupportMessage(support: WebXRSupport): string {
 	}
 
 	if (support.supportsVR) {
-		return 'WebXR VR is supported, but AR is not available on this device.'
+		return 'WebXR VR is supported! You can view this model in a virtual gallery on your headset.'
 	}
 
 	return 'WebXR support is limited on this device.'
@@ -0,0 +1,130 @@
+/**
+ * WKT (Well-Known Text) Utilities
+ *
+ * Parses the WKT geometry strings carried by IIIF `WKTSelector`s into plain
+ * coordinate lists. Only the geometries used for 3D annotations are supported:
+ * POINT, LINESTRING and POLYGON, with or without the Z ordinate.
+ *
+ * Coordinates are returned in model space (glTF spec: 1 unit = 1 meter).
+ */
+
+/**
+ * A single 3D coordinate as [x, y, z]
+ */
+export type WKTCoordinate = [number, number, number]
+
+/**
+ * Result of parsing a WKT geometry
+ */
+export interface WKTGeometry {
+	type: 'point' | 'linestring' | 'polygon'
+	/** Outer ring / line vertices. Closing duplicates of polygon rings are removed. */
+	coordinates: WKTCoordinate[]
+	/** Inner rings (holes) of a polygon, if any */
+	holes: WKTCoordinate[][]
+}
+
+const GEOMETRY_PATTERN = /^\s*(POINT|LINESTRING|POLYGON)\s*(Z|ZM|M)?\s*\((.*)\)\s*$/is
+
+/**
+ * Parses a WKT string into a WKTGeometry.
+ *
+ * @param wkt - The WKT string, e.g. "POLYGON Z ((0 0 0, 1 0 0, 1 1 0, 0 0 0))"
+ * @returns The parsed geometry or null if the string is not valid/supported WKT
+ *
+ * @example
+ * parseWKT('LINESTRING Z (0 0 0, 0 1 0)')
+ * // { type: 'linestring', coordinates: [[0, 0, 0], [0, 1, 0]], holes: [] }
+ */
+export function parseWKT(wkt: string): WKTGeometry | null {
+	const match = GEOMETRY_PATTERN.exec(wkt)
+	if (!match) return null
+
+	const geometryType = match[1].toUpperCase()
+	const dimension = (match[2] || '').toUpperCase()
+	const body = match[3]
+
+	if (geometryType === 'POINT') {
+		const point = parseCoordinate(body, dimension)
+		return point ? { type: 'point', coordinates: [point], holes: [] } : null
+	}
+
+	if (geometryType === 'LINESTRING') {
+		const coordinates = parseCoordinateList(body, dimension)
+		if (!coordinates || coordinates.length < 2) return null
+		return { type: 'linestring', coordinates, holes: [] }
+	}
+
+	const rings = splitRings(body)
+	if (!rings) return null
+
+	const parsedRings: WKTCoordinate[][] = []
+	for (const ring of rings) {
+		const coordinates = parseCoordinateList(ring, dimension)
+		if (!coordinates) return null
+		parsedRings.push(removeClosingCoordinate(coordinates))
+	}
+
+	if (parsedRings.length === 0 || parsedRings[0].length < 3) return null
+
+	return {
+		type: 'polygon',
+		coordinates: parsedRings[0],
+		holes: parsedRings.slice(1)
+	}
+}
+
+/**
+ * Splits a polygon body "(x y z, ...), (x y z, ...)" into its ring strings
+ */
+function splitRings(body: string): string[] | null {
+	const rings: string[] = []
+	let depth = 0
+	let start = -1
+
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i]
+		if (char === '(') {
+			depth++
+			if (depth === 1) start = i + 1
+		} else if (char === ')') {
+			depth--
+			if (depth === 0 && start >= 0) {
+				rings.push(body.slice(start, i))
+				start = -1
+			}
+			if (depth < 0) return null
+		}
+	}
+
+	return depth === 0 ? rings : null
+}
+
+function parseCoordinateList(list: string, dimension: string): WKTCoordinate[] | null {
+	const coordinates: WKTCoordinate[] = []
+	for (const part of list.split(',')) {
+		const coordinate = parseCoordinate(part, dimension)
+		if (!coordinate) return null
+		coordinates.push(coordinate)
+	}
+	return coordinates
+}
+
+function parseCoordinate(text: string, dimension: string): WKTCoordinate | null {
+	const values = text.trim().split(/\s+/).map(Number)
+	if (values.length < 2 || values.some((v) => !Number.isFinite(v))) return null
+
+	// "M" geometries carry a measure instead of a Z ordinate
+	const z = dimension === 'M' ? 0 : (values[2] ?? 0)
+	return [values[0], values[1], z]
+}
+
+function removeClosingCoordinate(coordinates: WKTCoordinate[]): WKTCoordinate[] {
+	if (coordinates.length < 2) return coordinates
+	const first = coordinates[0]
+	const last = coordinates[coordinates.length - 1]
+	if (first[0] === last[0] && first[1] === last[1] && first[2] === last[2]) {
+		return coordinates.slice(0, -1)
+	}
+	return coordinates
+}
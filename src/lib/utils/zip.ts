@@ -0,0 +1,153 @@
+/**
+ * ZIP Writer
+ *
+ * Minimal writer for uncompressed ("stored") ZIP archives. This is all USDZ
+ * packages need: the USDZ format requires stored entries whose data starts
+ * at a multiple of 64 bytes, which is done by padding the local header's
+ * extra field.
+ */
+
+export interface ZipEntry {
+	/** Path inside the archive, using forward slashes */
+	name: string
+	data: Uint8Array
+}
+
+export interface ZipOptions {
+	/** Align the start of every entry's data to this many bytes (USDZ: 64) */
+	alignment?: number
+	/** Modification date of all entries (default: now) */
+	date?: Date
+}
+
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+// Header ID of the padding extra field, with a 4 byte field header
+const PADDING_EXTRA_ID = 0x1986
+const EXTRA_FIELD_HEADER_SIZE = 4
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+	if (crcTable) return crcTable
+
+	crcTable = new Uint32Array(256)
+	for (let n = 0; n < 256; n++) {
+		let c = n
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+		}
+		crcTable[n] = c >>> 0
+	}
+	return crcTable
+}
+
+/**
+ * CRC-32 checksum as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+	const table = getCrcTable()
+	let crc = 0xffffffff
+	for (let i = 0; i < data.length; i++) {
+		crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+	}
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+		date:
+			(Math.max(0, date.getFullYear() - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate()
+	}
+}
+
+/**
+ * Creates an uncompressed ZIP archive from the given entries, in order
+ */
+export function createZip(entries: ZipEntry[], options: ZipOptions = {}): Uint8Array {
+	const alignment = options.alignment ?? 1
+	const dosDate = toDosDateTime(options.date ?? new Date())
+	const encoder = new TextEncoder()
+
+	const localParts: Uint8Array[] = []
+	const centralParts: Uint8Array[] = []
+	let offset = 0
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name)
+		const crc = crc32(entry.data)
+
+		// Pad the extra field so the data starts at a multiple of `alignment`
+		let padding = 0
+		const dataStart = offset + LOCAL_HEADER_SIZE + name.length
+		if (alignment > 1 && dataStart % alignment !== 0) {
+			padding = alignment - ((dataStart + EXTRA_FIELD_HEADER_SIZE) % alignment)
+			if (padding === alignment) padding = 0
+			padding += EXTRA_FIELD_HEADER_SIZE
+		}
+
+		const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length + padding)
+		const localView = new DataView(local.buffer)
+		localView.setUint32(0, 0x04034b50, true)
+		localView.setUint16(4, 10, true) // version needed: 1.0 (stored)
+		localView.setUint16(6, 0x0800, true) // UTF-8 names
+		localView.setUint16(8, 0, true) // method: stored
+		localView.setUint16(10, dosDate.time, true)
+		localView.setUint16(12, dosDate.date, true)
+		localView.setUint32(14, crc, true)
+		localView.setUint32(18, entry.data.length, true)
+		localView.setUint32(22, entry.data.length, true)
+		localView.setUint16(26, name.length, true)
+		localView.setUint16(28, padding, true)
+		local.set(name, LOCAL_HEADER_SIZE)
+		if (padding > 0) {
+			localView.setUint16(LOCAL_HEADER_SIZE + name.length, PADDING_EXTRA_ID, true)
+			localView.setUint16(
+				LOCAL_HEADER_SIZE + name.length + 2,
+				padding - EXTRA_FIELD_HEADER_SIZE,
+				true
+			)
+		}
+
+		const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length)
+		const centralView = new DataView(central.buffer)
+		centralView.setUint32(0, 0x02014b50, true)
+		centralView.setUint16(4, 20, true) // version made by
+		centralView.setUint16(6, 10, true) // version needed
+		centralView.setUint16(8, 0x0800, true)
+		centralView.setUint16(10, 0, true)
+		centralView.setUint16(12, dosDate.time, true)
+		centralView.setUint16(14, dosDate.date, true)
+		centralView.setUint32(16, crc, true)
+		centralView.setUint32(20, entry.data.length, true)
+		centralView.setUint32(24, entry.data.length, true)
+		centralView.setUint16(28, name.length, true)
+		centralView.setUint32(42, offset, true)
+		central.set(name, CENTRAL_HEADER_SIZE)
+
+		localParts.push(local, entry.data)
+		centralParts.push(central)
+		offset += local.length + entry.data.length
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+	const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE)
+	const endView = new DataView(end.buffer)
+	endView.setUint32(0, 0x06054b50, true)
+	endView.setUint16(8, entries.length, true)
+	endView.setUint16(10, entries.length, true)
+	endView.setUint32(12, centralSize, true)
+	endView.setUint32(16, offset, true)
+
+	const zip = new Uint8Array(offset + centralSize + end.length)
+	let position = 0
+	for (const part of [...localParts, ...centralParts, end]) {
+		zip.set(part, position)
+		position += part.length
+	}
+	return zip
+}
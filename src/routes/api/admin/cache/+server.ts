@@ -0,0 +1,53 @@
+/**
+ * AR Model Cache Admin API Endpoint
+ *
+ * - GET:    Cache statistics (backend, size, hit/miss counters, entries)
+ * - DELETE: Clear the cache
+ *
+ * Requires an "Authorization: Bearer <token>" header matching ADMIN_TOKEN.
+ * Without ADMIN_TOKEN the endpoint is disabled.
+ */
+
+import { error, json } from '@sveltejs/kit'
+import type { RequestEvent } from '@sveltejs/kit'
+import { env } from '$env/dynamic/private'
+import { clearCache, getCacheStats } from '$lib/server/arModelCache'
+
+function requireAdmin(request: Request): void {
+	const token = env.ADMIN_TOKEN
+	if (!token) {
+		throw error(404, 'Not found')
+	}
+
+	if (request.headers.get('authorization') !== `Bearer ${token}`) {
+		throw error(401, 'Missing or invalid admin token')
+	}
+}
+
+export async function GET({ request }: RequestEvent) {
+	requireAdmin(request)
+
+	try {
+		return json(await getCacheStats(), {
+			headers: {
+				'Cache-Control': 'no-store'
+			}
+		})
+	} catch (err) {
+		console.error('[Admin API] Failed to read cache stats:', err)
+		throw error(500, 'Failed to read cache stats')
+	}
+}
+
+export async function DELETE({ request }: RequestEvent) {
+	requireAdmin(request)
+
+	try {
+		await clearCache()
+		console.log('[Admin API] AR model cache cleared')
+		return new Response(null, { status: 204 })
+	} catch (err) {
+		console.error('[Admin API] Failed to clear cache:', err)
+		throw error(500, 'Failed to clear cache')
+	}
+}
@@ -0,0 +1,158 @@
+/**
+ * Annotation Storage API Endpoint
+ *
+ * Stores IIIF annotations per Zenodo record (see annotationStore).
+ *
+ * - GET:    List the record's annotations as a IIIF AnnotationPage
+ * - POST:   Create an annotation (JSON body: IIIFAnnotation, id optional)
+ * - PUT:    Replace an annotation (JSON body: IIIFAnnotation with id)
+ * - DELETE: Delete an annotation (query: ?id=<annotation id>)
+ *
+ * POST/PUT/DELETE require an "Authorization: Bearer <token>" header matching
+ * ANNOTATIONS_WRITE_TOKEN. Without a token, writes are refused unless
+ * ANNOTATIONS_OPEN_WRITES=true explicitly allows anyone to write.
+ * Only GET is available cross-origin.
+ */
+
+import { error, json } from '@sveltejs/kit'
+import type { RequestEvent } from '@sveltejs/kit'
+import { env } from '$env/dynamic/private'
+import {
+	AnnotationStoreError,
+	createAnnotation,
+	deleteAnnotation,
+	isValidRecordId,
+	listAnnotations,
+	updateAnnotation
+} from '$lib/server/annotationStore'
+
+// Maximum accepted request body size (1 MB)
+const MAX_BODY_BYTES = 1024 * 1024
+
+const CORS_HEADERS = {
+	'Access-Control-Allow-Origin': '*'
+}
+
+function getRecordId(params: Partial<Record<string, string>>): string {
+	const recordId = params.recordId
+	if (!recordId || !isValidRecordId(recordId)) {
+		throw error(400, 'Invalid record id')
+	}
+	return recordId
+}
+
+function requireWriteAccess(request: Request): void {
+	const token = env.ANNOTATIONS_WRITE_TOKEN
+	if (!token) {
+		if (env.ANNOTATIONS_OPEN_WRITES === 'true') return
+		throw error(403, 'Annotation writes are disabled: set ANNOTATIONS_WRITE_TOKEN')
+	}
+
+	if (request.headers.get('authorization') !== `Bearer ${token}`) {
+		throw error(401, 'Missing or invalid annotation write token')
+	}
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+	const contentLength = Number(request.headers.get('content-length') || 0)
+	if (contentLength > MAX_BODY_BYTES) {
+		throw error(413, 'Annotation too large')
+	}
+
+	const body = await request.arrayBuffer()
+	if (body.byteLength > MAX_BODY_BYTES) {
+		throw error(413, 'Annotation too large')
+	}
+
+	try {
+		return JSON.parse(new TextDecoder().decode(body))
+	} catch {
+		throw error(400, 'Request body must be valid JSON')
+	}
+}
+
+/**
+ * Maps store errors to HTTP errors, everything else to a 500
+ */
+function handleStoreError(err: unknown): never {
+	if (err instanceof AnnotationStoreError) {
+		throw error(err.status, err.message)
+	}
+	if (err && typeof err === 'object' && 'status' in err) {
+		throw err
+	}
+
+	console.error('[Annotations API] Storage error:', err)
+	throw error(500, 'Failed to access annotation storage')
+}
+
+export async function GET({ params }: RequestEvent) {
+	const recordId = getRecordId(params)
+
+	try {
+		const page = await listAnnotations(recordId)
+		return json(page, {
+			headers: {
+				...CORS_HEADERS,
+				'Cache-Control': 'no-cache'
+			}
+		})
+	} catch (err) {
+		handleStoreError(err)
+	}
+}
+
+export async function POST({ params, request }: RequestEvent) {
+	const recordId = getRecordId(params)
+	requireWriteAccess(request)
+
+	try {
+		const annotation = await createAnnotation(recordId, await readJsonBody(request))
+		return json(annotation, { status: 201 })
+	} catch (err) {
+		handleStoreError(err)
+	}
+}
+
+export async function PUT({ params, request }: RequestEvent) {
+	const recordId = getRecordId(params)
+	requireWriteAccess(request)
+
+	try {
+		const annotation = await updateAnnotation(recordId, await readJsonBody(request))
+		return json(annotation)
+	} catch (err) {
+		handleStoreError(err)
+	}
+}
+
+export async function DELETE({ params, request, url }: RequestEvent) {
+	const recordId = getRecordId(params)
+	requireWriteAccess(request)
+
+	const annotationId = url.searchParams.get('id')
+	if (!annotationId) {
+		throw error(400, 'Missing id parameter')
+	}
+
+	try {
+		await deleteAnnotation(recordId, annotationId)
+		return new Response(null, { status: 204 })
+	} catch (err) {
+		handleStoreError(err)
+	}
+}
+
+/**
+ * Handle OPTIONS for CORS preflight; writes are same-origin only
+ */
+export async function OPTIONS() {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			...CORS_HEADERS,
+			'Access-Control-Allow-Methods': 'GET, OPTIONS',
+			'Access-Control-Max-Age': '86400'
+		}
+	})
+}
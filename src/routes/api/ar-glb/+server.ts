@@ -2,76 +2,52 @@
  * AR GLB Scaling API Endpoint
  * 
  * Fetches a GLB file from Zenodo, scales it for AR display (max 2m on any axis),
- * and serves the scaled version. Results are cached to avoid re-processing.
+ * and serves the scaled version. Results are cached to avoid re-processing
+ * (see arModelCache.ts).
  * 
  * Query Parameters:
- * - url: The original GLB file URL (required)
+ * - url: The original GLB file URL (required, see arModelRequest.ts)
  * - maxDimension: Maximum dimension in meters (optional, default: 2.0)
+ * - customScaleFactor: Fixed scale factor, e.g. 1 for true scale (optional, overrides maxDimension)
+ * - unit: Unit of the source model (mm, cm, dm, m, in, ft; optional, detected if missing)
+ * 
+ * Optional optimization (see glbOptimizer.ts), a preset and/or single steps:
+ * - optimize: Preset name (lossless, ar, mobile, minimal)
+ * - targetTriangles: Simplify to at most this many triangles
+ * - maxTextureSize: Downscale textures to at most this many pixels per side
+ * - textureFormat: original, webp or ktx2 (ktx2 needs toktx on the server)
+ * - compression: none, draco or meshopt
+ * - dedup, prune: true/false
+ * Single steps override the preset values.
  * 
  * Response Headers include scaling metadata:
  * - X-AR-Scale-Factor: The scaling factor applied
  * - X-AR-Was-Scaled: Whether scaling was applied (true/false)
  * - X-AR-Original-Dimensions: Original dimensions in meters (WxHxD)
+ * - X-AR-Unit, X-AR-Unit-Confidence, X-AR-Unit-Source: Detected unit of the source model
  * - X-AR-Scaled-Dimensions: Scaled dimensions in meters (WxHxD)
+ * - X-AR-Original-Size, X-AR-Optimized-Size: File size in bytes before/after optimization
+ * - X-AR-Original-Triangles, X-AR-Optimized-Triangles: Triangle counts before/after optimization
  */
 
 import { error } from '@sveltejs/kit'
 import type { RequestEvent } from '@sveltejs/kit'
-import { scaleGlbForAR } from '$lib/services/glbScaler'
-import { AR_MAX_DIMENSION_METERS } from '$lib/utils/arScaling'
-
-// Allowed domains for GLB files
-const ALLOWED_DOMAINS = [
-	'zenodo.org',
-	'files.zenodo.org'
-]
+import { scaleGlbForAR } from '$lib/server/glbScaler'
+import {
+	getARResponseHeaders,
+	parseARModelRequest,
+	toARRequestError
+} from '$lib/server/arModelRequest'
 
 export async function GET({ url }: RequestEvent) {
-	const glbUrl = url.searchParams.get('url')
-	const maxDimensionParam = url.searchParams.get('maxDimension')
-
-	if (!glbUrl) {
-		throw error(400, 'Missing url parameter')
-	}
-
-	// Validate URL
-	let parsedUrl: URL
-	try {
-		parsedUrl = new URL(glbUrl)
-	} catch {
-		throw error(400, 'Invalid URL')
-	}
-
-	// Check if domain is allowed
-	const isAllowed = ALLOWED_DOMAINS.some(domain =>
-		parsedUrl.hostname === domain || parsedUrl.hostname.endsWith(`.${domain}`)
-	)
-
-	if (!isAllowed) {
-		throw error(403, `Domain ${parsedUrl.hostname} is not allowed. Only Zenodo URLs are supported.`)
-	}
-
-	// Validate file extension
-	if (!parsedUrl.pathname.toLowerCase().endsWith('.glb')) {
-		throw error(400, 'URL must point to a .glb file')
-	}
-
-	// Parse max dimension
-	let maxDimension = AR_MAX_DIMENSION_METERS
-	if (maxDimensionParam) {
-		const parsed = parseFloat(maxDimensionParam)
-		if (isNaN(parsed) || parsed <= 0 || parsed > 100) {
-			throw error(400, 'maxDimension must be a positive number between 0 and 100')
-		}
-		maxDimension = parsed
-	}
-
 	try {
-		const result = await scaleGlbForAR(glbUrl, { maxDimension })
-
-		// Format dimensions for headers
-		const formatDim = (d: { width: number; height: number; depth: number }) =>
-			`${d.width.toFixed(3)}x${d.height.toFixed(3)}x${d.depth.toFixed(3)}`
+		const request = parseARModelRequest(url.searchParams)
+		const result = await scaleGlbForAR(request.glbUrl, {
+			maxDimension: request.maxDimension,
+			customScaleFactor: request.customScaleFactor,
+			unit: request.unit,
+			optimization: request.optimization
+		})
 
 		return new Response(result.glbData as unknown as BodyInit, {
 			status: 200,
@@ -79,27 +55,16 @@ export async function GET({ url }: RequestEvent) {
 				'Content-Type': 'model/gltf-binary',
 				'Content-Disposition': 'inline; filename="model-ar-scaled.glb"',
 				'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
-				'Access-Control-Allow-Origin': '*',
-				// Custom headers with scaling metadata
-				'X-AR-Scale-Factor': result.scaleFactor.toFixed(6),
-				'X-AR-Was-Scaled': result.wasScaled.toString(),
-				'X-AR-Original-Dimensions': formatDim(result.originalDimensions),
-				'X-AR-Scaled-Dimensions': formatDim(result.scaledDimensions)
+				// Custom headers with scaling and optimization metadata
+				...getARResponseHeaders(result, request.optimizationLabel)
 			}
 		})
 	} catch (err) {
-		console.error('[AR GLB API] Error processing GLB:', err)
-
-		if (err instanceof Error) {
-			if (err.message.includes('Failed to download')) {
-				throw error(502, `Failed to fetch GLB from source: ${err.message}`)
-			}
-			if (err.message.includes('no scene')) {
-				throw error(422, 'GLB file has no valid scene')
-			}
+		const requestError = toARRequestError(err)
+		if (requestError.status >= 500) {
+			console.error('[AR GLB API] Error processing GLB:', err)
 		}
-
-		throw error(500, `Failed to process GLB: ${err instanceof Error ? err.message : 'Unknown error'}`)
+		throw error(requestError.status, requestError.message)
 	}
 }
 
@@ -0,0 +1,104 @@
+/**
+ * AR USDZ Conversion API Endpoint
+ *
+ * Converts a GLB file from Zenodo into a USDZ package for iOS AR Quick Look.
+ * The GLB is scaled and optimized like in /api/ar-glb, then converted in pure
+ * TypeScript (see usdzExporter.ts). Used as a fallback for records without
+ * their own USDZ file.
+ *
+ * Query Parameters: the same as /api/ar-glb. Optimization defaults to the
+ * "ar" preset; geometry compression and texture format options are ignored,
+ * since AR Quick Look only reads uncompressed meshes and PNG/JPEG textures.
+ * Models are always simplified to at most USDZ_MAX_TRIANGLES (also with
+ * optimize=none), since the USD text is built in memory in one go.
+ *
+ * Response Headers: the same X-AR-* headers as /api/ar-glb.
+ */
+
+import { error } from '@sveltejs/kit'
+import type { RequestEvent } from '@sveltejs/kit'
+import { scaleGlbForAR, type ScalingResult } from '$lib/server/glbScaler'
+import { getOrCreateModel, getSourceVersion, runModelJob } from '$lib/server/arModelCache'
+import { createGltfIO } from '$lib/server/glbOptimizer'
+import { exportUsdz, USDZ_MIME_TYPE } from '$lib/server/usdzExporter'
+import {
+	getARResponseHeaders,
+	parseARModelRequest,
+	toARRequestError
+} from '$lib/server/arModelRequest'
+
+const USDZ_MAX_TRIANGLES = 500_000
+
+export async function GET({ url }: RequestEvent) {
+	try {
+		const request = parseARModelRequest(url.searchParams, 'ar')
+		const targetTriangles = Math.min(
+			request.optimization?.targetTriangles ?? USDZ_MAX_TRIANGLES,
+			USDZ_MAX_TRIANGLES
+		)
+		const optimizationLabel =
+			targetTriangles === request.optimization?.targetTriangles
+				? request.optimizationLabel
+				: 'custom'
+		const options = {
+			maxDimension: request.maxDimension,
+			customScaleFactor: request.customScaleFactor,
+			unit: request.unit,
+			optimization: {
+				...request.optimization,
+				targetTriangles,
+				compression: 'none' as const,
+				textureFormat: 'original' as const
+			}
+		}
+
+		const { data, metadata: result } = await getOrCreateModel<Omit<ScalingResult, 'glbData'>>(
+			{
+				url: request.glbUrl,
+				version: await getSourceVersion(request.glbUrl),
+				format: 'usdz',
+				options
+			},
+			async () => {
+				// Scaling runs its own job, so it is not nested in the conversion job
+				const { glbData, ...result } = await scaleGlbForAR(request.glbUrl, options)
+				const usdzData = await runModelJob(async () => {
+					const io = await createGltfIO()
+					return exportUsdz(await io.readBinary(glbData))
+				})
+				return { data: usdzData, metadata: result }
+			}
+		)
+
+		return new Response(data as unknown as BodyInit, {
+			status: 200,
+			headers: {
+				'Content-Type': USDZ_MIME_TYPE,
+				'Content-Disposition': 'inline; filename="model-ar.usdz"',
+				'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+				...getARResponseHeaders(result, optimizationLabel)
+			}
+		})
+	} catch (err) {
+		const requestError = toARRequestError(err)
+		if (requestError.status >= 500) {
+			console.error('[AR USDZ API] Error converting GLB:', err)
+		}
+		throw error(requestError.status, requestError.message)
+	}
+}
+
+/**
+ * Handle OPTIONS for CORS preflight
+ */
+export async function OPTIONS() {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'GET, OPTIONS',
+			'Access-Control-Allow-Headers': 'Content-Type',
+			'Access-Control-Max-Age': '86400'
+		}
+	})
+}
@@ -1,7 +1,16 @@
+import { isValidLanguageTag } from '$lib/utils/i18n'
+import { parseLengthUnit } from '$lib/utils/unitDetection'
+import { parseViewerState } from '$lib/stores/viewerState'
+
 export const load = async ({ url }: { url: URL }) => {
 	const modelUrl = url.searchParams.get('model')
 	const usdzUrl = url.searchParams.get('usdz')
 	const annotationsUrl = url.searchParams.get('annotations')
+	// An unsupported language falls back to the browser languages, like on record pages
+	const requestedLang = url.searchParams.get('lang')
+	const lang = requestedLang && isValidLanguageTag(requestedLang) ? requestedLang : null
+	const unit = url.searchParams.get('unit')
+	const viewState = parseViewerState(url.searchParams)
 
 	if (!modelUrl) {
 		return {
@@ -31,10 +40,25 @@ export const load = async ({ url }: { url: URL }) => {
 		}
 	}
 
+	if (unit && !parseLengthUnit(unit)) {
+		return {
+			error: 'Invalid unit. Please provide a length unit such as "mm", "cm" or "m".'
+		}
+	}
+
+	if (url.searchParams.get('clip') && !viewState.clipping) {
+		return {
+			error: 'Invalid clipping state. Please check the "clip" parameter of the link.'
+		}
+	}
+
 	return {
 		modelUrl,
 		usdzUrl,
-		annotationsUrl
+		annotationsUrl,
+		lang,
+		unit,
+		viewState
 	}
 }
 
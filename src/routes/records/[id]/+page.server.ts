@@ -1,8 +1,13 @@
 import { filterZenodoRecord } from '$lib/utils'
+import { isValidLanguageTag } from '$lib/utils/i18n'
+import { parseLengthUnit } from '$lib/utils/unitDetection'
+import { parseViewerState } from '$lib/stores/viewerState'
 import type { PageServerLoad } from './$types'
 
-export const load = (async ({ params, fetch }) => {
+export const load = (async ({ params, fetch, url: pageUrl }) => {
 	const { id } = params
+	const lang = pageUrl.searchParams.get('lang')
+	const unit = parseLengthUnit(pageUrl.searchParams.get('unit'))
 
 	const url = `https://zenodo.org/api/records/${id}`
 
@@ -15,7 +20,10 @@ export const load = (async ({ params, fetch }) => {
 		const record = filterZenodoRecord(result)
 
 		return {
-			result: record
+			result: record,
+			lang: lang && isValidLanguageTag(lang) ? lang : undefined,
+			unit: unit ?? undefined,
+			viewState: parseViewerState(pageUrl.searchParams)
 		}
 	} catch (error) {
 		return { error: `${(error as Error).message}` }
@@ -8,15 +8,36 @@ export interface METSRecord {
 	license?: string
 	created?: string
 	updated?: string
+	/** IIIF manifest / annotation JSON files referenced from the METS file section */
+	annotationUrls?: string[]
+	/** Size statements from MODS (physicalDescription/extent, dimension notes), e.g. "30 x 20 cm" */
+	dimensions?: string[]
+}
+
+/**
+ * Annotation-bearing files found in a Zenodo record's file list
+ */
+export interface RecordAnnotationSources {
+	/** JSON files that may contain IIIF manifests, annotation pages or collections */
+	iiif: string[]
+	/** METS/MODS XML files */
+	mets: string[]
 }
 
 export interface IIIFAnnotation {
 	id: string
 	type: 'Annotation'
-	motivation: string[]
-	body?: IIIFAnnotationBody | string
+	motivation: string[] | string
+	body?: IIIFAnnotationBody | IIIFAnnotationBody[] | string
 	bodyValue?: string
 	target: IIIFAnnotationTarget
+	creator?: { id?: string; type?: string; name?: string } | string
+	created?: string
+	modified?: string
+	/** Extension property: annotation priority as used by the annotation filters */
+	priority?: 'low' | 'medium' | 'high'
+	/** Extension property: position of the annotation in the guided tour */
+	tourOrder?: number
 }
 
 export interface IIIFAnnotationBody {
@@ -24,7 +45,11 @@ export interface IIIFAnnotationBody {
 	value?: string
 	format?: string
 	language?: string
+	/** W3C purpose, e.g. 'commenting', 'describing', 'tagging' or 'classifying' */
+	purpose?: string
 	position?: IIIFAnnotationTarget
+	/** Alternative bodies of a 'Choice' body, e.g. the same text in several languages */
+	items?: IIIFAnnotationBody[]
 }
 
 export interface IIIFAnnotationTarget {
@@ -37,11 +62,14 @@ export interface IIIFAnnotationTarget {
 }
 
 export interface IIIFSelector {
-	type: 'PointSelector' | 'WKTSelector'
+	type: 'PointSelector' | 'WKTSelector' | 'BoxSelector' | 'FragmentSelector'
 	x?: number
 	y?: number
 	z?: number
-	value?: string // For WKT polygons
+	value?: string // For WKT polygons or "bbox=minX,minY,minZ,maxX,maxY,maxZ" fragments
+	conformsTo?: string
+	min?: { x: number; y: number; z: number } // For BoxSelector regions
+	max?: { x: number; y: number; z: number }
 }
 
 export interface IIIFManifest {
@@ -51,6 +79,7 @@ export interface IIIFManifest {
 	label: Record<string, string[]>
 	summary?: Record<string, string[]>
 	items: IIIFScene[]
+	annotations?: IIIFAnnotationPage[]
 }
 
 export interface IIIFScene {
@@ -58,6 +87,7 @@ export interface IIIFScene {
 	type: 'Scene'
 	label: Record<string, string[]>
 	items: IIIFAnnotationPage[]
+	annotations?: IIIFAnnotationPage[]
 }
 
 export interface IIIFAnnotationPage {
@@ -100,6 +130,14 @@ async function fetchThroughProxy(url: string, retries = 3): Promise<Response> {
 	throw new Error('Failed to fetch after retries')
 }
 
+function resolveUrl(href: string, baseUrl: string): string | null {
+	try {
+		return new URL(href, baseUrl).toString()
+	} catch {
+		return null
+	}
+}
+
 export async function parseMETSXML(xmlUrl: string): Promise<METSRecord | null> {
 	try {
 		const response = await fetchThroughProxy(xmlUrl)
@@ -144,6 +182,35 @@ export async function parseMETSXML(xmlUrl: string): Promise<METSRecord | null> {
 			}
 		}
 
+		const jsonFiles = xmlDoc.querySelectorAll(
+			'mets\\:file[MIMETYPE="application/json"], file[MIMETYPE="application/json"], ' +
+				'mets\\:file[MIMETYPE="application/ld+json"], file[MIMETYPE="application/ld+json"]'
+		)
+		const annotationUrls: string[] = []
+		jsonFiles.forEach((file) => {
+			const fLocat = file.querySelector('mets\\:FLocat, FLocat')
+			const href = fLocat?.getAttribute('xlink:href') || fLocat?.getAttribute('href')
+			// Relative links point next to the METS document
+			const url = href && resolveUrl(href, xmlUrl)
+			if (url) annotationUrls.push(url)
+		})
+		if (annotationUrls.length > 0) {
+			record.annotationUrls = annotationUrls
+		}
+
+		const dimensions: string[] = []
+		xmlDoc
+			.querySelectorAll(
+				'mods\\:extent, extent, mods\\:note[type="dimensions"], note[type="dimensions"]'
+			)
+			.forEach((element) => {
+				const text = element.textContent?.trim()
+				if (text) dimensions.push(text)
+			})
+		if (dimensions.length > 0) {
+			record.dimensions = dimensions
+		}
+
 		return record
 	} catch (error) {
 		console.error('Failed to parse METS XML:', error instanceof Error ? error.message : error)
@@ -153,9 +220,10 @@ export async function parseMETSXML(xmlUrl: string): Promise<METSRecord | null> {
 
 /**
  * Parse a IIIF Presentation API manifest from a URL
- * Note: This function can be used with custom IIIF manifests hosted externally.
- * Zenodo does not provide IIIF endpoints, so this will only work with
- * user-provided manifest URLs or custom IIIF servers.
+ * Note: Zenodo does not provide IIIF endpoints, so this works with manifests
+ * uploaded as files to a Zenodo record or hosted on custom IIIF servers.
+ * The document is returned as-is; use extractAnnotationsFromIIIF to handle
+ * annotation pages and collections as well as manifests.
  */
 export async function parseIIIFManifest(manifestUrl: string): Promise<IIIFManifest | null> {
 	try {
@@ -173,108 +241,126 @@ export async function parseIIIFManifest(manifestUrl: string): Promise<IIIFManife
 }
 
 export function extractCommentingAnnotations(manifest: IIIFManifest): IIIFAnnotation[] {
-	const annotations: IIIFAnnotation[] = []
-
-	for (const scene of manifest.items) {
-		for (const page of scene.items) {
-			for (const annotation of page.items) {
-				if (annotation.motivation.includes('commenting')) {
-					annotations.push(annotation)
-				}
-			}
-		}
+	const pages: IIIFAnnotationPage[] = [...(manifest.annotations || [])]
+
+	for (const scene of manifest.items || []) {
+		pages.push(...(scene.items || []), ...(scene.annotations || []))
 	}
 
-	return annotations
+	return pages.flatMap((page) => (page.items || []).filter(isCommentingAnnotation))
 }
 
-export function createSampleAnnotations(modelUrl: string): IIIFAnnotation[] {
-	return [
-		{
-			id: 'reliquary-annotation-1',
-			type: 'Annotation',
-			motivation: ['commenting'],
-			bodyValue: 'Reliquary Bust - This is a medieval reliquary in the form of a bust, likely containing sacred relics.',
-			target: {
-				type: 'SpecificResource',
-				source: [{
-					id: 'scene1',
-					type: 'Scene'
-				}],
-				selector: [{
-					type: 'PointSelector',
-					x: 0.0,
-					y: 0.15,
-					z: 0.0
-				}]
-			}
-		},
-		{
-			id: 'reliquary-annotation-2',
-			type: 'Annotation',
-			motivation: ['commenting'],
-			body: {
-				type: 'TextualBody',
-				value: '<p><strong>Head and Crown:</strong> The ornate crown and facial features show typical medieval craftsmanship and religious iconography.</p>',
-				format: 'text/html',
-				language: 'en'
-			},
-			target: {
-				type: 'SpecificResource',
-				source: [{
-					id: 'scene1',
-					type: 'Scene'
-				}],
-				selector: [{
-					type: 'PointSelector',
-					x: 0.0,
-					y: 0.25,
-					z: 0.0
-				}]
-			}
-		},
-		{
-			id: 'reliquary-annotation-3',
-			type: 'Annotation',
-			motivation: ['commenting'],
-			bodyValue: 'Base Structure - The base of the reliquary shows decorative elements typical of medieval religious art.',
-			target: {
-				type: 'SpecificResource',
-				source: [{
-					id: 'scene1',
-					type: 'Scene'
-				}],
-				selector: [{
-					type: 'PointSelector',
-					x: 0.0,
-					y: 0.05,
-					z: 0.0
-				}]
-			}
+function isCommentingAnnotation(annotation: IIIFAnnotation): boolean {
+	const motivations = Array.isArray(annotation.motivation)
+		? annotation.motivation
+		: [annotation.motivation]
+	return motivations.includes('commenting')
+}
+
+/**
+ * Extracts commenting annotations from any IIIF JSON document found in a record:
+ * a Manifest, an AnnotationPage, an AnnotationCollection with embedded pages,
+ * or a plain array of annotations. Returns an empty array for unrelated JSON.
+ */
+export function extractAnnotationsFromIIIF(document: any): IIIFAnnotation[] {
+	if (!document || typeof document !== 'object') return []
+
+	if (Array.isArray(document)) {
+		return document.filter((item) => item?.type === 'Annotation').filter(isCommentingAnnotation)
+	}
+
+	switch (document.type) {
+		case 'Manifest':
+			return extractCommentingAnnotations(document as IIIFManifest)
+		case 'AnnotationPage':
+			return (document.items || []).filter(isCommentingAnnotation)
+		case 'AnnotationCollection': {
+			const pages = [document.first, ...(document.items || [])].filter(
+				(page) => page && typeof page === 'object'
+			)
+			// The order of a collection defines the tour order, unless set explicitly
+			return pages
+				.flatMap((page: IIIFAnnotationPage) => page.items || [])
+				.map((annotation, index) => ({
+					...annotation,
+					tourOrder: annotation.tourOrder ?? index + 1
+				}))
+				.filter(isCommentingAnnotation)
+		}
+		default:
+			return []
+	}
+}
+
+/**
+ * Finds IIIF JSON and METS/MODS XML files in a Zenodo record's file list.
+ * Files are identified by extension; their content is checked when loaded.
+ */
+export function findAnnotationSources(files: any[] | undefined): RecordAnnotationSources {
+	const sources: RecordAnnotationSources = { iiif: [], mets: [] }
+	if (!files || !Array.isArray(files)) return sources
+
+	for (const file of files) {
+		const key: string = file?.key?.toLowerCase() || ''
+		const url: string | undefined = file?.links?.self
+		if (!url) continue
+
+		if (key.endsWith('.json') || key.endsWith('.jsonld')) {
+			sources.iiif.push(url)
+		} else if (key.endsWith('.xml') && (key.includes('mets') || key.includes('mods'))) {
+			sources.mets.push(url)
 		}
-	]
+	}
+
+	return sources
 }
 
-export async function loadIIIFAnnotationsForRecord(recordId: string): Promise<IIIFAnnotation[]> {
-	// NOTE: Zenodo does not currently provide IIIF manifests for records.
-	// The IIIF Presentation API is not part of Zenodo's infrastructure.
-	// This function is kept for future compatibility if Zenodo adds IIIF support,
-	// or if custom IIIF manifests are uploaded as files to Zenodo records.
+/**
+ * IIIF content found in a Zenodo record's files
+ */
+export interface RecordIIIFData {
+	annotations: IIIFAnnotation[]
+	/** Manifests, e.g. for their multilingual label and summary */
+	manifests: IIIFManifest[]
+	/** Size statements from METS/MODS files (see METSRecord.dimensions) */
+	dimensions: string[]
+}
 
+/**
+ * Loads all IIIF annotations and manifests for a Zenodo record by inspecting
+ * the record's JSON files (IIIF manifests, annotation pages/collections) and
+ * the JSON files referenced from its METS/MODS XML.
+ */
+export async function loadIIIFDataForRecord(
+	recordId: string,
+	sources: RecordAnnotationSources
+): Promise<RecordIIIFData> {
 	try {
-		// Check if a IIIF manifest file exists in the Zenodo record's files
-		// This would require fetching the record metadata and checking for .json files
-		// that follow IIIF Presentation API structure
+		const urls = new Set(sources.iiif)
+		const dimensions: string[] = []
+
+		const metsRecords = await Promise.all(sources.mets.map((url) => parseMETSXML(url)))
+		for (const metsRecord of metsRecords) {
+			metsRecord?.annotationUrls?.forEach((url) => urls.add(url))
+			dimensions.push(...(metsRecord?.dimensions ?? []))
+		}
+
+		const documents = await Promise.all(Array.from(urls).map((url) => parseIIIFManifest(url)))
+		const annotations = documents.flatMap((document) => extractAnnotationsFromIIIF(document))
+		const manifests = documents.filter(
+			(document): document is IIIFManifest => document?.type === 'Manifest'
+		)
 
-		// For now, we return an empty array since Zenodo doesn't provide IIIF endpoints
 		// Only log in development mode to reduce production console noise
 		if (import.meta.env.DEV) {
-			console.info(`IIIF manifests not available from Zenodo for record ${recordId}, using fallback annotations`)
+			console.info(
+				`Found ${annotations.length} IIIF annotations in ${urls.size} files for record ${recordId}`
+			)
 		}
-		return []
+		return { annotations, manifests, dimensions }
 	} catch (error) {
 		console.error('Failed to load IIIF annotations:', error instanceof Error ? error.message : error)
-		return []
+		return { annotations: [], manifests: [], dimensions: [] }
 	}
 }
 